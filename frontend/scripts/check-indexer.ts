@@ -0,0 +1,54 @@
+/**
+ * Checks how the staking indexer (src/lib/server/indexer.ts) labels Staked
+ * events against the cases in fixtures/indexer/classify.json: plain stakes,
+ * cancelled unstakes, claimAndRestakeEmber compounds and smart wallet bundles
+ * that claim and then stake or cancel the same amount. Run from the frontend
+ * directory:
+ *
+ *   npm run indexer:check   # exit 1 if any case disagrees
+ */
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { classify, type DecodedLog, type StakeTransfer } from '../src/lib/server/indexer';
+
+const FIXTURE = resolve(__dirname, '../fixtures/indexer/classify.json');
+
+interface ClassifyCase {
+  name: string;
+  logs: { transactionHash: `0x${string}`; logIndex: number; eventName: string; args: Record<string, string> }[];
+  transfers: { transactionHash: `0x${string}`; from: `0x${string}`; value: string }[];
+  expected: string[];
+}
+
+// Fixture amounts are decimal strings, addresses 0x-prefixed
+const toArg = (value: string) => (/^\d+$/.test(value) ? BigInt(value) : value);
+
+function main() {
+  const { ember, cases } = JSON.parse(readFileSync(FIXTURE, 'utf8')) as { ember: `0x${string}`; cases: ClassifyCase[] };
+
+  let failures = 0;
+  for (const c of cases) {
+    const logs = c.logs.map(
+      (log) =>
+        ({
+          ...log,
+          blockNumber: 1n,
+          args: Object.fromEntries(Object.entries(log.args).map(([key, value]) => [key, toArg(value)])),
+        }) as unknown as DecodedLog
+    );
+    const transfers: StakeTransfer[] = c.transfers.map((t) => ({ ...t, value: BigInt(t.value) }));
+
+    const actual = classify(logs, transfers, ember, new Map()).events.map((event) => `${event.type}:${event.amount}`);
+    if (JSON.stringify(actual) === JSON.stringify(c.expected)) {
+      console.log(`ok    ${c.name}`);
+    } else {
+      failures++;
+      console.error(`FAIL  ${c.name}: expected ${c.expected.join(', ')}, got ${actual.join(', ')}`);
+    }
+  }
+
+  console.log(`${cases.length - failures}/${cases.length} indexer cases match`);
+  if (failures > 0) process.exit(1);
+}
+
+main();
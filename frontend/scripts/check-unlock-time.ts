@@ -0,0 +1,54 @@
+/**
+ * Checks the frontend port of the M-3 unlock time (src/lib/unstake.ts) against
+ * the vectors in test/fixtures/unlock-time.json, which the Foundry suite runs
+ * against EmberStaking itself. Run from the frontend directory:
+ *
+ *   npm run unlock:check   # exit 1 if any vector disagrees
+ */
+import { readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { computeUnlockTime } from '../src/lib/unstake';
+
+const FIXTURE = join(resolve(__dirname, '../..'), 'test/fixtures/unlock-time.json');
+
+interface UnlockTimeCase {
+  name: string;
+  cooldown: number;
+  firstAmount: number;
+  elapsed: number;
+  secondAmount: number;
+  expectedDelay: number;
+}
+
+function main() {
+  const { cases } = JSON.parse(readFileSync(FIXTURE, 'utf8')) as { cases: UnlockTimeCase[] };
+  const whole = (amount: number) => BigInt(amount) * 10n ** 18n;
+
+  let failures = 0;
+  for (const c of cases) {
+    // First request at t = 0, second one `elapsed` seconds later
+    const cooldownPeriod = BigInt(c.cooldown);
+    const pendingUnlockTime = computeUnlockTime({
+      pendingAmount: 0n,
+      pendingUnlockTime: 0n,
+      amount: whole(c.firstAmount),
+      cooldownPeriod,
+      now: 0n,
+    });
+    const now = BigInt(c.elapsed);
+    const delay =
+      computeUnlockTime({ pendingAmount: whole(c.firstAmount), pendingUnlockTime, amount: whole(c.secondAmount), cooldownPeriod, now }) - now;
+
+    if (delay === BigInt(c.expectedDelay)) {
+      console.log(`ok    ${c.name}`);
+    } else {
+      failures++;
+      console.error(`FAIL  ${c.name}: expected ${c.expectedDelay}s, got ${delay}s`);
+    }
+  }
+
+  console.log(`${cases.length - failures}/${cases.length} unlock time vectors match`);
+  if (failures > 0) process.exit(1);
+}
+
+main();
@@ -0,0 +1,128 @@
+/**
+ * Generates src/config/contracts.generated.ts from Foundry artifacts.
+ *
+ * Addresses and deploy blocks come from broadcast/<script>/<chainId>/run-latest.json,
+ * ABIs from the `forge build` output in out/. Run from the frontend directory:
+ *
+ *   npm run contracts:generate   # rewrite the registry
+ *   npm run contracts:check      # exit 1 if the checked-in registry is stale
+ */
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { Abi } from 'viem';
+import { DEPLOYED, readBroadcastDeployments, type DeployedKey } from '../src/lib/broadcast';
+
+const ROOT = resolve(__dirname, '../..');
+const BROADCAST_DIR = join(ROOT, 'broadcast');
+const OUT_DIR = join(ROOT, 'out');
+const TARGET = resolve(__dirname, '../src/config/contracts.generated.ts');
+
+// Chains the frontend supports (Base Mainnet, Base Sepolia)
+const CHAIN_IDS = [8453, 84532] as const;
+
+// WETH is an OP Stack predeploy, identical on every Base chain
+const WETH = '0x4200000000000000000000000000000000000006';
+
+// Contracts that must exist on every supported chain
+const REQUIRED: ReadonlyArray<DeployedKey> = ['STAKING', 'FEE_SPLITTER'];
+
+// Exported ABI name -> Foundry artifact (out/<file>/<contract>.json)
+const ABIS = {
+  STAKING_ABI: { file: 'EmberStaking.sol', contract: 'EmberStaking' },
+  FEE_SPLITTER_ABI: { file: 'FeeSplitter.sol', contract: 'FeeSplitter' },
+  VESTER_ABI: { file: 'RewardVester.sol', contract: 'RewardVester' },
+} as const;
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+function readAbi(file: string, contract: string): Abi {
+  const path = join(OUT_DIR, file, `${contract}.json`);
+  if (!existsSync(path)) {
+    throw new Error(`Missing artifact ${path} - run \`forge build\` in the repo root first`);
+  }
+  return readJson<{ abi: Abi }>(path).abi;
+}
+
+function render(): string {
+  const addresses: string[] = [];
+  const blocks: string[] = [];
+
+  for (const chainId of CHAIN_IDS) {
+    const { ember, contracts: deployments } = readBroadcastDeployments(BROADCAST_DIR, chainId);
+
+    for (const key of REQUIRED) {
+      if (!deployments[key]) throw new Error(`No ${DEPLOYED[key].contract} deployment for chain ${chainId}`);
+    }
+
+    if (!ember) throw new Error(`Missing EmberStaking constructor arguments for chain ${chainId}`);
+
+    const entries = [`EMBER: '${ember}'`, `WETH: '${WETH}'`];
+    const blockEntries: string[] = [];
+    for (const key of Object.keys(DEPLOYED) as DeployedKey[]) {
+      const deployment = deployments[key];
+      if (!deployment) continue;
+      entries.push(`${key}: '${deployment.address}'`);
+      blockEntries.push(`${key}: ${deployment.block}n`);
+    }
+
+    addresses.push(`  ${chainId}: {\n${entries.map((e) => `    ${e},`).join('\n')}\n  },`);
+    blocks.push(`  ${chainId}: {\n${blockEntries.map((e) => `    ${e},`).join('\n')}\n  },`);
+  }
+
+  const abis = Object.entries(ABIS).map(
+    ([name, { file, contract }]) =>
+      `// ${contract} (out/${file}/${contract}.json)\nexport const ${name} = ${JSON.stringify(readAbi(file, contract), null, 2)} as const;`
+  );
+
+  return [
+    '// This file is generated by scripts/generate-contracts.ts - do not edit by hand.',
+    '// Run `npm run contracts:generate` after `forge build` or a new deployment.',
+    '',
+    `export type SupportedChainId = ${CHAIN_IDS.join(' | ')};`,
+    '',
+    'export interface ChainContracts {',
+    '  EMBER: `0x${string}`;',
+    '  WETH: `0x${string}`;',
+    '  STAKING: `0x${string}`;',
+    '  FEE_SPLITTER: `0x${string}`;',
+    '  VESTER?: `0x${string}`;',
+    '}',
+    '',
+    'export type DeployedContract = Exclude<keyof ChainContracts, \'EMBER\' | \'WETH\'>;',
+    '',
+    '// Contract addresses',
+    'export const CONTRACTS: Record<SupportedChainId, ChainContracts> = {',
+    ...addresses,
+    '};',
+    '',
+    '// Block each contract was deployed in (lower bound for log queries)',
+    'export const DEPLOY_BLOCKS: Record<SupportedChainId, Partial<Record<DeployedContract, bigint>>> = {',
+    ...blocks,
+    '};',
+    '',
+    abis.join('\n\n'),
+    '',
+  ].join('\n');
+}
+
+function main() {
+  const check = process.argv.includes('--check');
+  const output = render();
+
+  if (check) {
+    const current = existsSync(TARGET) ? readFileSync(TARGET, 'utf8') : '';
+    if (current !== output) {
+      console.error('contracts.generated.ts is stale - run `npm run contracts:generate`');
+      process.exit(1);
+    }
+    console.log('contracts.generated.ts is up to date');
+    return;
+  }
+
+  writeFileSync(TARGET, output);
+  console.log(`Wrote ${TARGET}`);
+}
+
+main();
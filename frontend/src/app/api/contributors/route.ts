@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import type { ContributorsError, ContributorsResponse } from '@/lib/contributors';
+import { computeContributors } from '@/lib/server/contributors';
+import { getServerDeployment, parseChainId } from '@/lib/server/deployments';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/contributors?chainId=8453
+// FeeSplitter projects and apps with their config and lifetime fees.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chainId = parseChainId(searchParams.get('chainId'));
+  const deployment = chainId ? getServerDeployment(chainId) : null;
+  if (!deployment) {
+    return NextResponse.json<ContributorsError>({ error: 'Unsupported chain' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json<ContributorsResponse>(await computeContributors(deployment), {
+      headers: { 'Cache-Control': 's-maxage=60, stale-while-revalidate=300' },
+    });
+  } catch (error) {
+    console.error('Contributors error:', error);
+    return NextResponse.json<ContributorsError>({ error: 'Failed to load contributors' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import type { HealthError, HealthResponse } from '@/lib/health';
+import { getServerDeployment, parseChainId } from '@/lib/server/deployments';
+import { computeHealth } from '@/lib/server/health';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/health?chainId=8453
+// Solvency and configuration checks, each pass / warn / fail. Responds 503 when
+// any check fails so plain HTTP uptime monitors can alert on it; not cached,
+// since a monitor should never see a stale pass.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chainId = parseChainId(searchParams.get('chainId'));
+  const deployment = chainId ? getServerDeployment(chainId) : null;
+  if (!deployment) {
+    return NextResponse.json<HealthError>({ error: 'Unsupported chain' }, { status: 400 });
+  }
+
+  try {
+    const health = await computeHealth(deployment);
+    return NextResponse.json<HealthResponse>(health, {
+      status: health.status === 'fail' ? 503 : 200,
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Health check error:', error);
+    return NextResponse.json<HealthError>({ error: 'Failed to run health checks' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import type { PoolSnapshot, PoolSnapshotError } from '@/lib/pool';
+import { parseChainId } from '@/lib/server/deployments';
+import { getPoolSnapshot, POOL_SNAPSHOT_REVALIDATE } from '@/lib/server/pool';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/pool?chainId=8453
+// Total staked, stakers, reward tokens and cooldown, cached for a minute.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chainId = parseChainId(searchParams.get('chainId'));
+
+  try {
+    const snapshot = chainId ? await getPoolSnapshot(chainId) : null;
+    if (!snapshot) {
+      return NextResponse.json<PoolSnapshotError>({ error: 'Unsupported chain' }, { status: 400 });
+    }
+    return NextResponse.json<PoolSnapshot>(snapshot, {
+      headers: { 'Cache-Control': `s-maxage=${POOL_SNAPSHOT_REVALIDATE}, stale-while-revalidate=300` },
+    });
+  } catch (error) {
+    console.error('Pool snapshot error:', error);
+    return NextResponse.json<PoolSnapshotError>({ error: 'Failed to load pool snapshot' }, { status: 500 });
+  }
+}
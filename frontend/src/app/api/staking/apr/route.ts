@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import type { StakingAprError, StakingAprResponse } from '@/lib/apr';
+import { computeStakingApr } from '@/lib/server/apr';
+import { getServerDeployment, parseChainId } from '@/lib/server/deployments';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/staking/apr?chainId=8453
+// Trailing 7/30/90-day APR per reward token, priced in EMBER.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chainId = parseChainId(searchParams.get('chainId'));
+  const deployment = chainId ? getServerDeployment(chainId) : null;
+  if (!deployment) {
+    return NextResponse.json<StakingAprError>({ error: 'Unsupported chain' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json<StakingAprResponse>(await computeStakingApr(deployment), {
+      headers: { 'Cache-Control': 's-maxage=60, stale-while-revalidate=300' },
+    });
+  } catch (error) {
+    console.error('Staking APR error:', error);
+    return NextResponse.json<StakingAprError>({ error: 'Failed to compute APR' }, { status: 500 });
+  }
+}
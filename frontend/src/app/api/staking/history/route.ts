@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import type { StakingHistoryError, StakingHistoryResponse } from '@/lib/history';
+import { getServerDeployment, parseChainId } from '@/lib/server/deployments';
+import { syncStakingIndex } from '@/lib/server/indexer';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+// GET /api/staking/history?account=0x...&chainId=8453&limit=25&cursor=<nextCursor>
+// Returns the account's EmberStaking timeline, newest first.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const account = searchParams.get('account');
+  const chainId = parseChainId(searchParams.get('chainId'));
+  const cursor = searchParams.get('cursor');
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+
+  if (!account || !isAddress(account)) {
+    return NextResponse.json<StakingHistoryError>({ error: 'Invalid account address' }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json<StakingHistoryError>({ error: 'limit must be a positive integer' }, { status: 400 });
+  }
+  const deployment = chainId ? getServerDeployment(chainId) : null;
+  if (!deployment) {
+    return NextResponse.json<StakingHistoryError>({ error: 'Unsupported chain' }, { status: 400 });
+  }
+
+  try {
+    const { index, synced } = await syncStakingIndex(deployment);
+
+    const accountLower = account.toLowerCase();
+    const all = index.events.filter((e) => e.account.toLowerCase() === accountLower).reverse();
+
+    // Cursor is the id of the last event on the previous page
+    const start = cursor ? all.findIndex((e) => e.id === cursor) + 1 : 0;
+    if (cursor && start === 0) {
+      return NextResponse.json<StakingHistoryError>({ error: 'Invalid cursor' }, { status: 400 });
+    }
+    const pageSize = Math.min(limit, MAX_LIMIT);
+    const events = all.slice(start, start + pageSize);
+    const hasMore = start + pageSize < all.length;
+
+    return NextResponse.json<StakingHistoryResponse>({
+      chainId: deployment.chainId,
+      account: account as `0x${string}`,
+      events,
+      nextCursor: hasMore ? events[events.length - 1].id : null,
+      indexedBlock: index.lastBlock,
+      syncing: !synced,
+    });
+  } catch (error) {
+    console.error('Staking history error:', error);
+    return NextResponse.json<StakingHistoryError>(
+      { error: 'Failed to fetch staking history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import type { ProtocolStatsError, ProtocolStatsResponse } from '@/lib/stats';
+import { getServerDeployment, parseChainId } from '@/lib/server/deployments';
+import { computeProtocolStats } from '@/lib/server/stats';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/stats?chainId=8453
+// Staked over time, stakers, rewards per token, fees per app and vesting progress.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const chainId = parseChainId(searchParams.get('chainId'));
+  const deployment = chainId ? getServerDeployment(chainId) : null;
+  if (!deployment) {
+    return NextResponse.json<ProtocolStatsError>({ error: 'Unsupported chain' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json<ProtocolStatsResponse>(await computeProtocolStats(deployment), {
+      headers: { 'Cache-Control': 's-maxage=60, stale-while-revalidate=300' },
+    });
+  } catch (error) {
+    console.error('Stats error:', error);
+    return NextResponse.json<ProtocolStatsError>({ error: 'Failed to load stats' }, { status: 500 });
+  }
+}
@@ -6,13 +6,20 @@ import { Providers } from './providers';
 
 const inter = Inter({ subsets: ['latin'] });
 
+// Absolute base for the generated Open Graph images (app/opengraph-image.tsx)
+const siteUrl =
+  process.env.NEXT_PUBLIC_SITE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000');
+
 export const metadata: Metadata = {
+  metadataBase: new URL(siteUrl),
   title: 'Ember Staking | Stake EMBER, Earn Fees',
   description: 'Stake EMBER tokens to earn fees from autonomous builds. Part of the Ember Autonomous Builder ecosystem.',
   openGraph: {
     title: 'Ember Staking 🐉',
     description: 'Stake EMBER, earn fees from every autonomous build',
-    images: ['/og.png'],
+  },
+  twitter: {
+    card: 'summary_large_image',
   },
 };
 
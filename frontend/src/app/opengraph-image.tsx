@@ -0,0 +1,21 @@
+import { base } from 'viem/chains';
+import { getOgPoolStats, OG_CONTENT_TYPE, OG_SIZE, poolStats, stakingOgImage } from '@/lib/server/og';
+
+export const alt = 'Ember Staking: stake EMBER, earn fees from every autonomous build';
+export const size = OG_SIZE;
+export const contentType = OG_CONTENT_TYPE;
+// Regenerated at most once a minute, like the pool snapshot it renders
+export const revalidate = 60;
+
+export default async function Image() {
+  const { snapshot, apr } = await getOgPoolStats(base.id);
+  return stakingOgImage({
+    title: 'Stake EMBER, earn fees',
+    subtitle:
+      snapshot && snapshot.activeStakers !== null
+        ? `${snapshot.activeStakers.toLocaleString('en-US')} stakers share the fees from every autonomous build`
+        : 'Earn fees from every autonomous build',
+    stats: poolStats(snapshot, apr),
+    tokens: snapshot?.rewardTokens.filter((token) => token.active).map((token) => token.symbol) ?? [],
+  });
+}
@@ -2,36 +2,13 @@
 
 import Link from 'next/link';
 import { useEffect, useState } from 'react';
-
-// Types
-interface GitHubStats {
-  repos: number;
-  stars: number;
-  commits: number;
-  followers: number;
-  following: number;
-}
-
-interface GitHubData {
-  stats: GitHubStats;
-  languages: Record<string, number>;
-  activityByDay: Record<string, number>;
-  recentActivity: Array<{
-    type: string;
-    repo: string;
-    date: string;
-    message: string;
-  }>;
-  topRepos: Array<{
-    name: string;
-    description: string | null;
-    url: string;
-    stars: number;
-    language: string | null;
-    updatedAt: string;
-  }>;
-  lastUpdated: string;
-}
+import { base } from 'wagmi/chains';
+import { ActivityChart } from '@/components/ActivityChart';
+import { ProtocolStats } from '@/components/ProtocolStats';
+import { useCooldownPeriod } from '@/hooks/useCooldownPeriod';
+import { useProtocolStats } from '@/hooks/useProtocolStats';
+import { formatDuration } from '@/lib/format';
+import type { GitHubResponse } from '@/lib/github';
 
 // Animated counter
 function AnimatedCounter({ end, duration = 2000, suffix = '' }: { end: number; duration?: number; suffix?: string }) {
@@ -51,27 +28,6 @@ function AnimatedCounter({ end, duration = 2000, suffix = '' }: { end: number; d
   return <span>{count.toLocaleString()}{suffix}</span>;
 }
 
-// Activity chart component
-function ActivityChart({ data }: { data: Record<string, number> }) {
-  const days = Object.entries(data);
-  const max = Math.max(...Object.values(data), 1);
-  
-  return (
-    <div className="flex items-end gap-1 h-20">
-      {days.map(([date, count]) => (
-        <div key={date} className="flex-1 flex flex-col items-center gap-1">
-          <div 
-            className="w-full bg-gradient-to-t from-orange-600 to-orange-400 rounded-t transition-all duration-500"
-            style={{ height: `${Math.max((count / max) * 100, 4)}%` }}
-            title={`${date}: ${count} events`}
-          />
-          <span className="text-[10px] text-zinc-600">{date.slice(5)}</span>
-        </div>
-      ))}
-    </div>
-  );
-}
-
 // Language bar component
 function LanguageBar({ languages }: { languages: Record<string, number> }) {
   const total = Object.values(languages).reduce((a, b) => a + b, 0);
@@ -142,12 +98,17 @@ function formatEventType(type: string): { icon: string; label: string; color: st
 }
 
 export default function DragonsDen() {
-  const [githubData, setGithubData] = useState<GitHubData | null>(null);
+  const [githubData, setGithubData] = useState<GitHubResponse | null>(null);
   const [loading, setLoading] = useState(true);
+  const cooldownPeriod = useCooldownPeriod();
+  const { data: protocolStats } = useProtocolStats(base.id);
 
   useEffect(() => {
     fetch('/api/github')
-      .then(res => res.json())
+      .then(res => {
+        if (!res.ok) throw new Error(`GitHub request failed (${res.status})`);
+        return res.json() as Promise<GitHubResponse>;
+      })
       .then(data => {
         setGithubData(data);
         setLoading(false);
@@ -158,13 +119,6 @@ export default function DragonsDen() {
       });
   }, []);
 
-  // Hardcoded stats for non-GitHub metrics
-  const extraStats = {
-    contractsDeployed: 6,
-    linesOfCode: 15420,
-    projectsBuilt: 12,
-  };
-
   return (
     <main className="min-h-screen bg-gradient-to-b from-zinc-950 via-zinc-900 to-black relative">
       <EmberParticles />
@@ -239,7 +193,8 @@ export default function DragonsDen() {
                 </div>
               </div>
               <p className="text-zinc-400 text-sm mb-4">
-                Stake $EMBER tokens to earn fees from every autonomous build. 3-day cooldown, no minimum.
+                Stake $EMBER tokens to earn fees from every autonomous build.
+                {cooldownPeriod !== undefined && ` ${formatDuration(cooldownPeriod)} unstake cooldown.`}
               </p>
               <div className="flex items-center text-orange-400 text-sm font-medium">
                 Launch App →
@@ -351,7 +306,15 @@ export default function DragonsDen() {
             {githubData && (
               <span className="text-xs text-zinc-500 bg-zinc-800 px-2 py-0.5 rounded-full flex items-center gap-1">
                 <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
-                Live from GitHub
+                Live from GitHub &amp; Base
+              </span>
+            )}
+            {githubData?.stale && (
+              <span
+                className="text-xs text-amber-300 bg-amber-900/30 px-2 py-0.5 rounded-full"
+                title={githubData.staleReason}
+              >
+                GitHub data from {new Date(githubData.lastUpdated).toLocaleString()}
               </span>
             )}
           </div>
@@ -365,13 +328,13 @@ export default function DragonsDen() {
                 { label: 'Stars', value: githubData?.stats.stars || 0, icon: '⭐' },
                 { label: 'Commits (7d)', value: githubData?.stats.commits || 0, icon: '💾' },
                 { label: 'GitHub Followers', value: githubData?.stats.followers || 0, icon: '👥' },
-                { label: 'Contracts', value: extraStats.contractsDeployed, icon: '📜' },
-                { label: 'Lines of Code', value: extraStats.linesOfCode, icon: '📝', suffix: '+' },
+                { label: 'Stakers', value: protocolStats?.activeStakers || 0, icon: '🔥' },
+                { label: 'Fee Payments', value: protocolStats?.apps.reduce((sum, app) => sum + app.feeCount, 0) || 0, icon: '💸' },
               ].map((stat) => (
                 <div key={stat.label} className="bg-zinc-900/50 border border-zinc-800 rounded-xl p-3 text-center hover:border-orange-500/50 transition-colors group">
                   <div className="text-xl mb-1 group-hover:scale-110 transition-transform">{stat.icon}</div>
                   <div className="text-2xl font-bold text-white">
-                    <AnimatedCounter end={stat.value} suffix={stat.suffix} />
+                    <AnimatedCounter end={stat.value} />
                   </div>
                   <div className="text-xs text-zinc-500">{stat.label}</div>
                 </div>
@@ -381,6 +344,13 @@ export default function DragonsDen() {
         </div>
       </section>
 
+      {/* On-chain Stats */}
+      <section className="py-8 px-4">
+        <div className="max-w-6xl mx-auto">
+          <ProtocolStats chainId={base.id} />
+        </div>
+      </section>
+
       {/* Activity Chart + Languages */}
       {githubData && (
         <section className="py-8 px-4">
@@ -13,6 +13,8 @@ import {
 } from '@rainbow-me/rainbowkit/wallets';
 import { createConfig, http } from 'wagmi';
 import { base, baseSepolia } from 'wagmi/chains';
+import { TransactionProvider } from '@/components/TransactionProvider';
+import { TransactionToasts } from '@/components/TransactionToasts';
 
 import '@rainbow-me/rainbowkit/styles.css';
 
@@ -68,7 +70,10 @@ export function Providers({ children }: { children: React.ReactNode }) {
           accentColorForeground: 'white',
           borderRadius: 'medium',
         })}>
-          {children}
+          <TransactionProvider>
+            {children}
+            <TransactionToasts />
+          </TransactionProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
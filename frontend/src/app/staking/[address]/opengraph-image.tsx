@@ -0,0 +1,43 @@
+import { getAddress, isAddress } from 'viem';
+import { base } from 'viem/chains';
+import { shortenAddress } from '@/lib/format';
+import { compactAmount, getOgPoolStats, OG_CONTENT_TYPE, OG_SIZE, poolStats, stakingOgImage } from '@/lib/server/og';
+import { getAccountSnapshot } from '@/lib/server/pool';
+
+export const alt = 'Ember Staking position';
+export const size = OG_SIZE;
+export const contentType = OG_CONTENT_TYPE;
+export const revalidate = 60;
+
+export default async function Image({ params }: { params: { address: string } }) {
+  const { snapshot, apr } = await getOgPoolStats(base.id);
+  const pool = poolStats(snapshot, apr);
+  const tokens = snapshot?.rewardTokens.filter((token) => token.active).map((token) => token.symbol) ?? [];
+  if (!isAddress(params.address)) {
+    return stakingOgImage({ title: 'Stake EMBER, earn fees', subtitle: 'Earn fees from every autonomous build', stats: pool, tokens });
+  }
+
+  const account = getAddress(params.address);
+  const position = await getAccountSnapshot(base.id, account).catch((error) => {
+    console.error('OG account snapshot error:', error);
+    return null;
+  });
+  const staked = position ? BigInt(position.stakedBalance) : 0n;
+  const decimals = snapshot?.stakingToken.decimals ?? 18;
+  const symbol = snapshot?.stakingToken.symbol ?? 'EMBER';
+  const totalStaked = snapshot ? BigInt(snapshot.totalStaked) : 0n;
+  const poolShare = totalStaked > 0n ? `${(Number((staked * 10_000n) / totalStaked) / 100).toFixed(2)}%` : '0%';
+
+  const isStaking = !!position && staked > 0n;
+
+  return stakingOgImage({
+    title: isStaking ? `${compactAmount(staked, decimals)} ${symbol} staked` : shortenAddress(account),
+    subtitle: isStaking
+      ? `${shortenAddress(account)} holds ${poolShare} of the pool`
+      : position
+        ? `${shortenAddress(account)} isn't staking yet`
+        : 'Earn fees from every autonomous build',
+    stats: isStaking ? [{ label: 'Pool share', value: poolShare }, ...pool] : pool,
+    tokens,
+  });
+}
@@ -0,0 +1,38 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getAddress, isAddress } from 'viem';
+import { base } from 'viem/chains';
+import { StakingPage } from '@/components/StakingPage';
+import { shortenAddress } from '@/lib/format';
+import { getAccountSnapshot, getPoolSnapshot } from '@/lib/server/pool';
+
+// Shareable staking page for one address; opengraph-image.tsx renders its card
+export const revalidate = 60;
+
+export function generateMetadata({ params }: { params: { address: string } }): Metadata {
+  if (!isAddress(params.address)) return {};
+  const title = `${shortenAddress(getAddress(params.address))} on Ember Staking 🐉`;
+  return {
+    title,
+    openGraph: { title, description: 'Stake EMBER, earn fees from every autonomous build' },
+    twitter: { card: 'summary_large_image', title },
+  };
+}
+
+export default async function Page({ params }: { params: { address: string } }) {
+  if (!isAddress(params.address)) notFound();
+  const account = getAddress(params.address);
+
+  // Either may fail on an RPC outage; the page still works once a wallet connects
+  const [snapshot, shared] = await Promise.all([
+    getPoolSnapshot(base.id).catch((error) => {
+      console.error('Pool snapshot error:', error);
+      return null;
+    }),
+    getAccountSnapshot(base.id, account).catch((error) => {
+      console.error('Account snapshot error:', error);
+      return null;
+    }),
+  ]);
+  return <StakingPage snapshot={snapshot} shared={shared} />;
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import Link from 'next/link';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { VesterDashboard } from '@/components/VesterDashboard';
+
+export default function VesterPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-zinc-950 via-zinc-900 to-black">
+      {/* Navigation */}
+      <nav className="border-b border-zinc-800/50 backdrop-blur-sm sticky top-0 z-50 bg-zinc-950/80">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex justify-between items-center">
+          <Link href="/" className="flex items-center gap-3 group">
+            <span className="text-3xl group-hover:animate-pulse">🐉</span>
+            <div>
+              <h1 className="text-xl font-bold text-white">Ember</h1>
+              <p className="text-xs text-zinc-500">Autonomous Builder</p>
+            </div>
+          </Link>
+          <div className="flex items-center gap-6">
+            <Link 
+              href="/" 
+              className="text-zinc-400 hover:text-white transition-colors text-sm"
+            >
+              Den
+            </Link>
+            <Link 
+              href="/staking" 
+              className="text-zinc-400 hover:text-white transition-colors text-sm"
+            >
+              Staking
+            </Link>
+            <Link 
+              href="/vester" 
+              className="text-orange-400 font-medium text-sm"
+            >
+              Vester
+            </Link>
+            <Link 
+              href="/contributors" 
+              className="text-zinc-400 hover:text-white transition-colors text-sm"
+            >
+              Contributors
+            </Link>
+            <a 
+              href="https://x.com/emberclawd" 
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-zinc-400 hover:text-white transition-colors text-sm"
+            >
+              𝕏
+            </a>
+            <ConnectButton.Custom>
+              {({ account, chain, openConnectModal, openAccountModal, mounted }) => {
+                const connected = mounted && account && chain;
+                return (
+                  <button
+                    onClick={connected ? openAccountModal : openConnectModal}
+                    className="px-4 py-2 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-500 hover:to-red-500 text-white text-sm font-medium rounded-lg transition-all"
+                  >
+                    {connected ? `${account.displayName}` : 'Connect'}
+                  </button>
+                );
+              }}
+            </ConnectButton.Custom>
+          </div>
+        </div>
+      </nav>
+
+      {/* Header */}
+      <section className="py-12 px-4 text-center">
+        <h1 className="text-4xl font-bold text-white mb-2">
+          ⏳ Reward Vester
+        </h1>
+        <p className="text-zinc-400">
+          EMBER rewards vest linearly and are released to stakers. Anyone can trigger a release.
+        </p>
+      </section>
+
+      {/* Vester Content */}
+      <section className="max-w-4xl mx-auto px-4 pb-16">
+        <VesterDashboard />
+      </section>
+
+      {/* Footer */}
+      <footer className="py-8 px-4 border-t border-zinc-800/50">
+        <div className="max-w-6xl mx-auto flex justify-between items-center text-sm text-zinc-500">
+          <div>🐉 Ember © 2026</div>
+          <div className="flex gap-4">
+            <a href="https://x.com/emberclawd" target="_blank" rel="noopener noreferrer" className="hover:text-white">𝕏</a>
+            <a href="https://github.com/emberdragonc" target="_blank" rel="noopener noreferrer" className="hover:text-white">GitHub</a>
+          </div>
+        </div>
+      </footer>
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+interface ActivityChartProps {
+  // Bars in order, keyed by YYYY-MM-DD
+  data: Record<string, number>;
+  // Hover text for one bar
+  formatValue?: (value: number) => string;
+  // Label every nth bar, for series too long to label each day
+  labelEvery?: number;
+}
+
+export function ActivityChart({ data, formatValue = (count) => `${count} events`, labelEvery = 1 }: ActivityChartProps) {
+  const days = Object.entries(data);
+  const max = Math.max(...Object.values(data), 1);
+
+  return (
+    <div className="flex items-end gap-1 h-20">
+      {days.map(([date, count], i) => (
+        <div key={date} className="flex-1 flex flex-col items-center gap-1">
+          <div
+            className="w-full bg-gradient-to-t from-orange-600 to-orange-400 rounded-t transition-all duration-500"
+            style={{ height: `${Math.max((count / max) * 100, 4)}%` }}
+            title={`${date}: ${formatValue(count)}`}
+          />
+          <span className="text-[10px] text-zinc-600">{(days.length - 1 - i) % labelEvery === 0 ? date.slice(5) : '\u00a0'}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useAccount } from 'wagmi';
+import { CONTRACTS } from '@/config/contracts';
+import { useTokenMetadata } from '@/hooks/useTokenMetadata';
+import type { StakingEventType, StakingHistoryEvent, StakingHistoryResponse } from '@/lib/history';
+
+const EVENT_LABELS: Record<StakingEventType, { icon: string; label: string; color: string }> = {
+  stake: { icon: '🔥', label: 'Staked', color: 'text-orange-400' },
+  unstake_request: { icon: '⏳', label: 'Unstake requested', color: 'text-amber-400' },
+  cancel_unstake: { icon: '↩️', label: 'Unstake cancelled', color: 'text-zinc-300' },
+  withdraw: { icon: '📤', label: 'Withdrawn', color: 'text-green-400' },
+  claim: { icon: '🎁', label: 'Claimed', color: 'text-green-400' },
+  claim_failed: { icon: '⚠️', label: 'Claim failed', color: 'text-red-400' },
+  compound: { icon: '🔄', label: 'Compounded', color: 'text-orange-400' },
+};
+
+async function fetchHistory(account: string, chainId: number, cursor: string | null): Promise<StakingHistoryResponse> {
+  const params = new URLSearchParams({ account, chainId: String(chainId) });
+  if (cursor) params.set('cursor', cursor);
+  const res = await fetch(`/api/staking/history?${params}`);
+  if (!res.ok) throw new Error(`History request failed (${res.status})`);
+  return res.json();
+}
+
+export function ActivityTimeline() {
+  const { address, chainId, chain } = useAccount();
+  const contracts = chainId ? CONTRACTS[chainId as keyof typeof CONTRACTS] : null;
+  const explorerUrl = chain?.blockExplorers?.default.url;
+
+  const { data, error, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ['staking-history', chainId, address],
+    queryFn: ({ pageParam }) => fetchHistory(address!, chainId!, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!address && !!contracts,
+    refetchInterval: 30_000,
+  });
+
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+  const syncing = data?.pages[0]?.syncing ?? false;
+
+  const { getToken, formatAmount } = useTokenMetadata(
+    contracts ? [contracts.EMBER, ...events.flatMap((e) => (e.token ? [e.token] : []))] : []
+  );
+
+  if (!contracts) return null;
+
+  const describe = (event: StakingHistoryEvent) => {
+    const token = event.token ?? contracts.EMBER;
+    return `${formatAmount(token, BigInt(event.amount))} ${getToken(token).symbol}`;
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-white">📜 Your Activity</h2>
+        {syncing && (
+          <span className="text-xs text-zinc-500 bg-zinc-800 px-2 py-0.5 rounded-full flex items-center gap-1">
+            <span className="w-1.5 h-1.5 bg-amber-500 rounded-full animate-pulse"></span>
+            Indexing history...
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-zinc-500 py-4">Loading activity...</div>
+      ) : error ? (
+        <div className="bg-zinc-800 rounded-xl p-4">
+          <p className="text-zinc-500">Couldn&apos;t load your activity. Please try again later.</p>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="bg-zinc-800 rounded-xl p-4">
+          <p className="text-zinc-500">{syncing ? 'Still indexing, check back in a moment.' : 'No staking activity yet.'}</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {events.map((event) => {
+            const { icon, label, color } = EVENT_LABELS[event.type];
+            return (
+              <div key={event.id} className="flex items-center gap-3 bg-zinc-800/50 border border-zinc-800 rounded-lg p-3">
+                <span className="text-lg">{icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className={`font-medium ${color}`}>{label}</span>
+                    <span className="text-white">{describe(event)}</span>
+                  </div>
+                  {event.type === 'unstake_request' && event.unlockTime && (
+                    <p className="text-xs text-zinc-500 mt-0.5">
+                      Unlocks {new Date(event.unlockTime * 1000).toLocaleString()}
+                    </p>
+                  )}
+                  {event.type === 'claim_failed' && (
+                    <p className="text-xs text-zinc-500 mt-0.5">Transfer failed, rewards are still owed</p>
+                  )}
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p className="text-xs text-zinc-400">{new Date(event.timestamp * 1000).toLocaleString()}</p>
+                  {explorerUrl && (
+                    <a
+                      href={`${explorerUrl}/tx/${event.transactionHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-orange-400 hover:text-orange-300"
+                    >
+                      View tx ↗
+                    </a>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {hasNextPage && (
+        <button
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="w-full mt-4 bg-zinc-800 hover:bg-zinc-700 disabled:bg-zinc-800 text-zinc-300 font-medium py-2 rounded-xl transition-colors"
+        >
+          {isFetchingNextPage ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
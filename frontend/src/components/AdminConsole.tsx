@@ -0,0 +1,143 @@
+'use client';
+
+import { useCallback, useState, type ReactNode } from 'react';
+import { useAccount } from 'wagmi';
+import { base } from 'wagmi/chains';
+import { CONTRACTS, type SupportedChainId } from '@/config/contracts';
+import { useAdminState } from '@/hooks/useAdminState';
+import { AdminReview } from '@/components/AdminReview';
+import { SafeProposalPanel } from '@/components/SafeProposalPanel';
+import { EmergencyWithdrawForm, SplitterAdminForms, StakingAdminForms, VesterAdminForms } from '@/components/AdminForms';
+import type { AdminAction, AdminContract } from '@/lib/admin';
+import { formatBps } from '@/lib/contributors';
+import { formatDuration, shortenAddress } from '@/lib/format';
+
+function Section({ title, owner, isOwner, children }: { title: string; owner?: string; isOwner: boolean; children: ReactNode }) {
+  return (
+    <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-2xl font-bold text-white">{title}</h2>
+        {owner && (
+          <span className={`text-xs px-2 py-0.5 rounded-full ${isOwner ? 'text-green-300 bg-green-900/40' : 'text-zinc-400 bg-zinc-800'}`}>
+            Owner {shortenAddress(owner)}
+            {isOwner && ' · you'}
+          </span>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+// Owner console for EmberStaking, FeeSplitter and RewardVester. Anyone can
+// open it and review actions (including a dry run as the owner); only the
+// owner of a contract, on the right network, can send.
+export function AdminConsole() {
+  const { address, chainId } = useAccount();
+  const readChainId = (chainId && chainId in CONTRACTS ? chainId : base.id) as SupportedChainId;
+  const { contracts, staking, splitter, vester } = useAdminState(readChainId);
+  const [reviewing, setReviewing] = useState<AdminAction | null>(null);
+  const closeReview = useCallback(() => setReviewing(null), []);
+  // Reviewed actions waiting to be exported as one Safe proposal
+  const [proposal, setProposal] = useState<AdminAction[]>([]);
+  const queueReview = () => {
+    if (reviewing) setProposal((actions) => [...actions, reviewing]);
+    setReviewing(null);
+  };
+
+  const owners: Record<AdminContract, `0x${string}` | undefined> = {
+    STAKING: staking?.owner,
+    FEE_SPLITTER: splitter?.owner,
+    VESTER: vester?.owner,
+  };
+  const isOwner = (contract: AdminContract) => !!address && owners[contract]?.toLowerCase() === address.toLowerCase();
+  const ownsAny = (Object.keys(owners) as AdminContract[]).some(isOwner);
+  const onChain = chainId === readChainId;
+  const activeRewardTokens = staking?.rewardTokens.filter((t) => t.active).length ?? 0;
+
+  const formProps = { chainId: readChainId, contracts, onReview: setReviewing };
+  const loading = <p className="text-zinc-500">Loading...</p>;
+
+  return (
+    <div className="space-y-6">
+      {!ownsAny ? (
+        <div className="p-4 bg-zinc-900/30 border border-zinc-800 rounded-2xl text-zinc-400 text-sm">
+          👀 Read-only mode: {address ? 'the connected wallet does not own any of these contracts.' : 'connect the owner wallet to make changes.'}{' '}
+          You can still review any action and dry-run it as the owner.
+        </div>
+      ) : !onChain ? (
+        <div className="p-4 bg-amber-900/30 border border-amber-500/30 rounded-2xl text-amber-300 text-sm">
+          ⚠️ Switch your wallet to a supported network to send admin transactions.
+        </div>
+      ) : null}
+
+      <Section title="🔥 EmberStaking" owner={staking?.owner} isOwner={isOwner('STAKING')}>
+        {staking ? (
+          <>
+            <p className="text-zinc-400 text-sm mb-4">
+              {staking.paused ? '⏸️ Paused' : '▶️ Active'} · cooldown {formatDuration(staking.cooldownPeriod)} ·{' '}
+              {activeRewardTokens} active reward token{activeRewardTokens === 1 ? '' : 's'}
+            </p>
+            <StakingAdminForms {...formProps} state={staking} />
+          </>
+        ) : (
+          loading
+        )}
+      </Section>
+
+      <Section title="💰 FeeSplitter" owner={splitter?.owner} isOwner={isOwner('FEE_SPLITTER')}>
+        {splitter ? (
+          <>
+            <p className="text-zinc-400 text-sm mb-4">
+              {formatBps(Number(splitter.stakerShareBps))} to stakers ·{' '}
+              {formatBps(Number(splitter.maxBps - splitter.stakerShareBps))} to contributors
+            </p>
+            <SplitterAdminForms {...formProps} state={splitter} />
+          </>
+        ) : (
+          loading
+        )}
+      </Section>
+
+      {contracts.VESTER && (
+        <Section title="⏳ RewardVester" owner={vester?.owner} isOwner={isOwner('VESTER')}>
+          {vester ? (
+            <>
+              <p className="text-zinc-400 text-sm mb-4">
+                {vester.schedules.filter((s) => s.active).length} active of {vester.schedules.length} schedules
+              </p>
+              <VesterAdminForms {...formProps} state={vester} />
+            </>
+          ) : (
+            loading
+          )}
+        </Section>
+      )}
+
+      <Section title="🧯 Recovery" isOwner={false}>
+        {staking ? <EmergencyWithdrawForm {...formProps} staking={staking} vester={vester} /> : loading}
+      </Section>
+
+      {proposal.length > 0 && (
+        <SafeProposalPanel
+          chainId={readChainId}
+          actions={proposal}
+          owners={owners}
+          onRemove={(index) => setProposal((actions) => actions.filter((_, i) => i !== index))}
+          onClear={() => setProposal([])}
+        />
+      )}
+
+      {reviewing && owners[reviewing.contract] && (
+        <AdminReview
+          action={reviewing}
+          chainId={readChainId}
+          owner={owners[reviewing.contract]!}
+          canExecute={onChain && isOwner(reviewing.contract)}
+          onQueue={queueReview}
+          onClose={closeReview}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,474 @@
+'use client';
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { zeroAddress } from 'viem';
+import { useReadContract, useReadContracts } from 'wagmi';
+import {
+  ERC20_ABI,
+  FEE_SPLITTER_ABI,
+  STAKING_ABI,
+  type ChainContracts,
+  type SupportedChainId,
+} from '@/config/contracts';
+import { useNow } from '@/hooks/useNow';
+import { useTokenMetadata } from '@/hooks/useTokenMetadata';
+import {
+  ADMIN_CONTRACT_NAMES,
+  buildAddRewardToken,
+  buildCancelSchedule,
+  buildCreateSchedule,
+  buildDeprecateRewardToken,
+  buildEmergencyWithdraw,
+  buildRegisterProject,
+  buildSetAppFee,
+  buildSetCooldownPeriod,
+  buildSetPaused,
+  buildSetSplit,
+  buildUpdateContributor,
+  parseAddress,
+  type AdminAction,
+  type AdminContract,
+  type AdminResult,
+  type AppConfig,
+  type ProjectConfig,
+  type RecoverableToken,
+  type SplitterAdminState,
+  type StakingAdminState,
+  type VesterAdminState,
+} from '@/lib/admin';
+import { formatDuration, formatTokenAmount } from '@/lib/format';
+
+interface FormProps<State> {
+  chainId: SupportedChainId;
+  contracts: ChainContracts;
+  state: State;
+  onReview: (action: AdminAction) => void;
+}
+
+const inputClass =
+  'w-full bg-zinc-800 border border-zinc-700 rounded-xl px-4 py-2 text-white text-sm focus:outline-none focus:border-orange-500';
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block">
+      <span className="text-zinc-400 text-xs">{label}</span>
+      <div className="mt-1">{children}</div>
+    </label>
+  );
+}
+
+function TextField({
+  label,
+  value,
+  onChange,
+  placeholder,
+  type = 'text',
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  type?: 'text' | 'datetime-local';
+}) {
+  return (
+    <Field label={label}>
+      <input
+        type={type}
+        autoComplete="off"
+        spellCheck={false}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    </Field>
+  );
+}
+
+interface FormCardProps {
+  title: string;
+  description: ReactNode;
+  result: AdminResult;
+  // Errors are only shown once the form has input
+  touched: boolean;
+  onReview: (action: AdminAction) => void;
+  children?: ReactNode;
+}
+
+function FormCard({ title, description, result, touched, onReview, children }: FormCardProps) {
+  return (
+    <div className="bg-zinc-800/50 border border-zinc-800 rounded-xl p-4 space-y-3">
+      <div>
+        <h3 className="font-semibold text-white">{title}</h3>
+        <p className="text-zinc-500 text-xs mt-0.5">{description}</p>
+      </div>
+      {children}
+      {touched && result.error && <p className="text-red-400 text-xs">{result.error}</p>}
+      <button
+        onClick={() => result.action && onReview(result.action)}
+        disabled={!result.action}
+        className="w-full bg-zinc-700 hover:bg-zinc-600 disabled:bg-zinc-800 disabled:text-zinc-600 text-white text-sm font-medium py-2 rounded-xl transition-colors"
+      >
+        Review
+      </button>
+    </div>
+  );
+}
+
+// Symbol of a token, or the shortened address until metadata resolves
+function useSymbols(chainId: SupportedChainId, tokens: `0x${string}`[]) {
+  const { getToken } = useTokenMetadata(tokens, chainId);
+  return (token: string) => getToken(token).symbol;
+}
+
+// ============ EmberStaking ============
+
+export function StakingAdminForms({ chainId, contracts, state, onReview }: FormProps<StakingAdminState>) {
+  const [newToken, setNewToken] = useState('');
+  const [deprecated, setDeprecated] = useState('');
+  const [cooldownDays, setCooldownDays] = useState('');
+  const symbol = useSymbols(chainId, state.rewardTokens.map((t) => t.address));
+  const activeTokens = state.rewardTokens.filter((t) => t.active);
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <FormCard
+        title="Add reward token"
+        description={`${state.rewardTokens.length} of ${state.maxRewardTokens} slots used, deprecated tokens included.`}
+        result={buildAddRewardToken(contracts, state, newToken)}
+        touched={newToken !== ''}
+        onReview={onReview}
+      >
+        <TextField label="Token address" value={newToken} onChange={setNewToken} placeholder="0x..." />
+      </FormCard>
+
+      <FormCard
+        title="Deprecate reward token"
+        description="Stops new deposits in the token. Earned rewards stay claimable."
+        result={buildDeprecateRewardToken(contracts, state, deprecated)}
+        touched={deprecated !== ''}
+        onReview={onReview}
+      >
+        <Field label="Reward token">
+          <select value={deprecated} onChange={(e) => setDeprecated(e.target.value)} className={inputClass}>
+            <option value="">Select a token</option>
+            {activeTokens.map((t) => (
+              <option key={t.address} value={t.address}>
+                {symbol(t.address)} ({t.address})
+              </option>
+            ))}
+          </select>
+        </Field>
+      </FormCard>
+
+      <FormCard
+        title="Set cooldown period"
+        description={`Currently ${formatDuration(state.cooldownPeriod)}, at most ${formatDuration(state.maxCooldown)}.`}
+        result={buildSetCooldownPeriod(contracts, state, cooldownDays)}
+        touched={cooldownDays !== ''}
+        onReview={onReview}
+      >
+        <TextField label="Cooldown (days)" value={cooldownDays} onChange={setCooldownDays} placeholder="3" />
+      </FormCard>
+
+      <FormCard
+        title={state.paused ? 'Unpause staking' : 'Pause staking'}
+        description={
+          state.paused
+            ? 'Staking is paused. Unpausing allows new stakes again.'
+            : 'Blocks new stakes. Unstaking, withdrawals and claims keep working.'
+        }
+        result={buildSetPaused(contracts, state, !state.paused)}
+        touched
+        onReview={onReview}
+      />
+    </div>
+  );
+}
+
+// ============ FeeSplitter ============
+
+function useAppConfig(chainId: SupportedChainId, contracts: ChainContracts, app: `0x${string}` | undefined): AppConfig | undefined {
+  const { data } = useReadContract({
+    address: contracts.FEE_SPLITTER,
+    abi: FEE_SPLITTER_ABI,
+    functionName: 'getAppFeeConfig',
+    args: app ? [app] : undefined,
+    chainId,
+    query: { enabled: !!app },
+  });
+  // Memoized on the query data, which keeps its identity until the config changes
+  return useMemo(() => (data ? { feeBps: data[0], creator: data[1], active: data[2], appType: data[3] } : undefined), [data]);
+}
+
+function useProject(chainId: SupportedChainId, contracts: ChainContracts, project: `0x${string}` | undefined): ProjectConfig | undefined {
+  const { data } = useReadContract({
+    address: contracts.FEE_SPLITTER,
+    abi: FEE_SPLITTER_ABI,
+    functionName: 'getProject',
+    args: project ? [project] : undefined,
+    chainId,
+    query: { enabled: !!project },
+  });
+  return useMemo(() => (data ? { contributor: data[0], ideaDescription: data[1], registered: data[2] } : undefined), [data]);
+}
+
+function AppFeeForm({ chainId, contracts, state, onReview }: FormProps<SplitterAdminState>) {
+  const [app, setApp] = useState('');
+  const [feeBps, setFeeBps] = useState('');
+  const [creator, setCreator] = useState('');
+  const [appType, setAppType] = useState('');
+  const appAddress = parseAddress(app, 'App').address;
+  const current = useAppConfig(chainId, contracts, appAddress);
+
+  // Start from the app's current config so only the intended fields change
+  useEffect(() => {
+    if (!current || current.creator === zeroAddress) return;
+    setFeeBps(current.feeBps.toString());
+    setCreator(current.creator);
+    setAppType(current.appType);
+  }, [appAddress, current]);
+
+  return (
+    <FormCard
+      title="Configure app fee"
+      description={`Adds or updates an app. The fee is capped at ${Number(state.maxFeeBps)} bps.`}
+      result={buildSetAppFee(contracts, state, { app, feeBps, creator, appType }, current)}
+      touched={app !== ''}
+      onReview={onReview}
+    >
+      <TextField label="App address" value={app} onChange={setApp} placeholder="0x..." />
+      <div className="grid grid-cols-2 gap-3">
+        <TextField label="Fee (bps)" value={feeBps} onChange={setFeeBps} placeholder="30" />
+        <TextField label="App type" value={appType} onChange={setAppType} placeholder="DEX" />
+      </div>
+      <TextField label="Idea creator" value={creator} onChange={setCreator} placeholder="0x..." />
+    </FormCard>
+  );
+}
+
+function RegisterProjectForm({ chainId, contracts, onReview }: FormProps<SplitterAdminState>) {
+  const [project, setProject] = useState('');
+  const [contributor, setContributor] = useState('');
+  const [ideaDescription, setIdeaDescription] = useState('');
+  const current = useProject(chainId, contracts, parseAddress(project, 'Project').address);
+
+  return (
+    <FormCard
+      title="Register project"
+      description="Legacy projects paying through receiveFee."
+      result={buildRegisterProject(contracts, { project, contributor, ideaDescription }, current)}
+      touched={project !== ''}
+      onReview={onReview}
+    >
+      <TextField label="Project address" value={project} onChange={setProject} placeholder="0x..." />
+      <TextField label="Contributor" value={contributor} onChange={setContributor} placeholder="0x..." />
+      <TextField label="Idea" value={ideaDescription} onChange={setIdeaDescription} placeholder="What was built" />
+    </FormCard>
+  );
+}
+
+function UpdateContributorForm({ chainId, contracts, onReview }: FormProps<SplitterAdminState>) {
+  const [project, setProject] = useState('');
+  const [contributor, setContributor] = useState('');
+  const current = useProject(chainId, contracts, parseAddress(project, 'Project').address);
+
+  return (
+    <FormCard
+      title="Update contributor"
+      description="Wallet recovery: moves the project and all unclaimed fees to a new wallet."
+      result={buildUpdateContributor(contracts, { project, contributor }, current)}
+      touched={project !== ''}
+      onReview={onReview}
+    >
+      <TextField label="Project address" value={project} onChange={setProject} placeholder="0x..." />
+      {current?.registered && <p className="text-zinc-500 text-xs">Current: {current.contributor}</p>}
+      <TextField label="New contributor" value={contributor} onChange={setContributor} placeholder="0x..." />
+    </FormCard>
+  );
+}
+
+export function SplitterAdminForms(props: FormProps<SplitterAdminState>) {
+  const { contracts, state, onReview } = props;
+  const [stakerBps, setStakerBps] = useState('');
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <AppFeeForm {...props} />
+      <FormCard
+        title="Set fee split"
+        description={`Stakers get ${Number(state.stakerShareBps)} of every ${Number(state.maxBps)} bps, contributors the rest.`}
+        result={buildSetSplit(contracts, state, stakerBps)}
+        touched={stakerBps !== ''}
+        onReview={onReview}
+      >
+        <TextField label="Staker share (bps)" value={stakerBps} onChange={setStakerBps} placeholder="5000" />
+      </FormCard>
+      <RegisterProjectForm {...props} />
+      <UpdateContributorForm {...props} />
+    </div>
+  );
+}
+
+// ============ RewardVester ============
+
+export function VesterAdminForms({ chainId, contracts, state, onReview }: FormProps<VesterAdminState>) {
+  const [amount, setAmount] = useState('');
+  const [start, setStart] = useState('');
+  const [durationDays, setDurationDays] = useState('');
+  const [scheduleId, setScheduleId] = useState('');
+  const now = useNow();
+  const { getToken } = useTokenMetadata([state.rewardToken], chainId);
+  const token = getToken(state.rewardToken);
+
+  // The vester pulls the tokens from the owner, not from whoever is connected
+  const { data: funding } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: state.rewardToken, abi: ERC20_ABI, functionName: 'balanceOf', args: [state.owner], chainId },
+      { address: state.rewardToken, abi: ERC20_ABI, functionName: 'allowance', args: [state.owner, contracts.VESTER!], chainId },
+    ],
+  });
+  const activeSchedules = state.schedules.filter((s) => s.active);
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <FormCard
+        title="Create vesting schedule"
+        description={`${state.schedules.length} of ${state.maxSchedules} schedules used. Owner holds ${
+          funding ? `${formatTokenAmount(funding[0], token.decimals, 2)} ${token.symbol}` : '...'
+        }.`}
+        result={buildCreateSchedule(
+          contracts,
+          state,
+          { amount, start, durationDays },
+          { ...token, balance: funding?.[0], allowance: funding?.[1] },
+          now
+        )}
+        touched={amount !== '' || durationDays !== ''}
+        onReview={onReview}
+      >
+        <TextField label={`Amount (${token.symbol})`} value={amount} onChange={setAmount} placeholder="0.0" />
+        <div className="grid grid-cols-2 gap-3">
+          <TextField label="Start (empty = now)" value={start} onChange={setStart} type="datetime-local" />
+          <TextField label="Duration (days)" value={durationDays} onChange={setDurationDays} placeholder="30" />
+        </div>
+      </FormCard>
+
+      <FormCard
+        title="Cancel vesting schedule"
+        description="Returns everything not yet released to the owner."
+        result={buildCancelSchedule(contracts, state, scheduleId, token)}
+        touched={scheduleId !== ''}
+        onReview={onReview}
+      >
+        <Field label="Schedule">
+          <select value={scheduleId} onChange={(e) => setScheduleId(e.target.value)} className={inputClass}>
+            <option value="">Select a schedule</option>
+            {activeSchedules.map((s) => (
+              <option key={s.id.toString()} value={s.id.toString()}>
+                #{s.id.toString()} · {formatTokenAmount(s.totalAmount - s.released, token.decimals, 2)} {token.symbol} unreleased
+              </option>
+            ))}
+          </select>
+        </Field>
+      </FormCard>
+    </div>
+  );
+}
+
+// ============ Emergency withdraw ============
+
+interface EmergencyWithdrawFormProps {
+  chainId: SupportedChainId;
+  contracts: ChainContracts;
+  staking: StakingAdminState;
+  vester?: VesterAdminState;
+  onReview: (action: AdminAction) => void;
+}
+
+export function EmergencyWithdrawForm({ chainId, contracts, staking, vester, onReview }: EmergencyWithdrawFormProps) {
+  const [target, setTarget] = useState<AdminContract>('STAKING');
+  const [token, setToken] = useState('');
+  const [amount, setAmount] = useState('');
+  const tokenAddress = parseAddress(token, 'Token').address;
+  const targetAddress = contracts[target];
+  const { getToken } = useTokenMetadata(tokenAddress ? [tokenAddress] : [], chainId);
+  // Read here rather than taken from the metadata fallback: a wrong scale would move the wrong amount
+  const { data: decimals, isError: decimalsError } = useReadContract({
+    address: tokenAddress,
+    abi: ERC20_ABI,
+    functionName: 'decimals',
+    chainId,
+    query: { enabled: !!tokenAddress },
+  });
+
+  const { data: reads } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: tokenAddress!, abi: ERC20_ABI, functionName: 'balanceOf', args: [targetAddress!], chainId },
+      { address: contracts.STAKING, abi: STAKING_ABI, functionName: 'wasEverRewardToken', args: [tokenAddress!], chainId },
+      { address: contracts.STAKING, abi: STAKING_ABI, functionName: 'totalOwedRewards', args: [tokenAddress!], chainId },
+      { address: contracts.FEE_SPLITTER, abi: FEE_SPLITTER_ABI, functionName: 'totalPendingClaims', args: [tokenAddress!], chainId },
+    ],
+    query: { enabled: !!tokenAddress && !!targetAddress },
+  });
+
+  // Mirrors each contract's emergencyWithdraw guards
+  const recoverable: RecoverableToken = { ...getToken(token), balance: reads?.[0] };
+  if (decimals !== undefined) {
+    recoverable.decimals = decimals;
+  } else if (tokenAddress) {
+    recoverable.blocked = decimalsError
+      ? "This token doesn't report its decimals, so the amount can't be scaled."
+      : 'Loading token decimals...';
+  }
+  if (tokenAddress && reads) {
+    const [, wasEverRewardToken, totalOwed, pendingClaims] = reads;
+    const same = (a: string) => a.toLowerCase() === tokenAddress.toLowerCase();
+    if (target === 'STAKING') {
+      if (same(staking.stakingToken)) recoverable.blocked = 'Staked EMBER can never be recovered.';
+      else if (staking.rewardTokens.some((t) => t.active && same(t.address))) {
+        recoverable.blocked = 'Active reward tokens cannot be recovered. Deprecate the token first.';
+      } else if (wasEverRewardToken && totalOwed > 0n) {
+        recoverable.blocked = 'This token still has unclaimed rewards and cannot be recovered.';
+      }
+    } else if (target === 'FEE_SPLITTER') {
+      recoverable.reserved = pendingClaims;
+    } else if (vester && same(vester.rewardToken)) {
+      recoverable.reserved = vester.schedules.filter((s) => s.active).reduce((sum, s) => sum + s.totalAmount - s.released, 0n);
+    }
+  }
+
+  const targets = (Object.keys(ADMIN_CONTRACT_NAMES) as AdminContract[]).filter((c) => contracts[c]);
+
+  return (
+    <FormCard
+      title="Emergency withdraw"
+      description="Recovers stray tokens to the owner. Staked EMBER, owed rewards, unclaimed fees and vesting commitments stay put."
+      result={buildEmergencyWithdraw(contracts, target, { token, amount }, recoverable)}
+      touched={token !== ''}
+      onReview={onReview}
+    >
+      <div className="grid grid-cols-2 gap-3">
+        <Field label="From">
+          <select value={target} onChange={(e) => setTarget(e.target.value as AdminContract)} className={inputClass}>
+            {targets.map((c) => (
+              <option key={c} value={c}>
+                {ADMIN_CONTRACT_NAMES[c]}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <TextField label={`Amount${tokenAddress ? ` (${recoverable.symbol})` : ''}`} value={amount} onChange={setAmount} placeholder="0.0" />
+      </div>
+      <TextField label="Token address" value={token} onChange={setToken} placeholder="0x..." />
+      {recoverable.balance !== undefined && decimals !== undefined && (
+        <p className="text-zinc-500 text-xs">
+          Held: {formatTokenAmount(recoverable.balance, recoverable.decimals)} {recoverable.symbol}
+          {recoverable.reserved ? ` · reserved: ${formatTokenAmount(recoverable.reserved, recoverable.decimals)}` : ''}
+        </p>
+      )}
+    </FormCard>
+  );
+}
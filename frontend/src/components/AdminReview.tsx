@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useConfig } from 'wagmi';
+import { simulateContract, type SimulateContractParameters } from 'wagmi/actions';
+import { useBatchedCalls } from '@/hooks/useBatchedCalls';
+import { useTrackedTransaction } from '@/components/TransactionProvider';
+import { ADMIN_CONTRACT_NAMES, type AdminAction } from '@/lib/admin';
+import { TOKEN_ERRORS_ABI, describeContractError } from '@/lib/errors';
+import { shortenAddress } from '@/lib/format';
+
+interface AdminReviewProps {
+  action: AdminAction;
+  chainId: number;
+  // Owner of the target contract; the dry run is sent from this address
+  owner: `0x${string}`;
+  // False in read-only mode
+  canExecute: boolean;
+  // Adds the action to the Safe proposal instead of sending it
+  onQueue: () => void;
+  onClose: () => void;
+}
+
+type DryRun = { status: 'running' } | { status: 'passed' } | { status: 'failed'; error: string };
+
+// Confirm step for an admin action: the diff, the warnings and a dry run of
+// the call as the owner, so non-owners (e.g. Safe signers) can check it too.
+export function AdminReview({ action, chainId, owner, canExecute, onQueue, onClose }: AdminReviewProps) {
+  const config = useConfig();
+  const batch = useBatchedCalls();
+  const { isLoading: isConfirming, isSuccess } = useTrackedTransaction(batch.id);
+  const [dryRun, setDryRun] = useState<DryRun>({ status: 'running' });
+  // Set once every call went out; a sequential run confirms its first tx before the last is sent
+  const [sent, setSent] = useState(false);
+
+  // Later calls depend on the effects of the first (e.g. approve before createSchedule), so only the first is simulated
+  const [first] = action.calls;
+  useEffect(() => {
+    let cancelled = false;
+    setDryRun({ status: 'running' });
+    simulateContract(config, {
+      ...first.contract,
+      abi: [...first.contract.abi, ...TOKEN_ERRORS_ABI],
+      account: owner,
+      chainId,
+    } as SimulateContractParameters)
+      .then(() => !cancelled && setDryRun({ status: 'passed' }))
+      .catch((err) => !cancelled && setDryRun({ status: 'failed', error: describeContractError(err) }));
+    return () => {
+      cancelled = true;
+    };
+  }, [config, first, owner, chainId]);
+
+  // Close once the action has landed; the toast takes over from here
+  useEffect(() => {
+    if (sent && isSuccess) onClose();
+  }, [sent, isSuccess, onClose]);
+
+  const handleConfirm = async () => {
+    setSent(await batch.send(action.calls, { label: action.title }));
+  };
+
+  const busy = batch.isPending || isConfirming;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">{ADMIN_CONTRACT_NAMES[action.contract]}</p>
+        <h2 className="text-xl font-bold text-white mb-4">{action.title}</h2>
+
+        {/* Diff */}
+        {action.changes.length > 0 && (
+          <div className="bg-zinc-800 rounded-xl p-3 mb-4 space-y-2 text-sm">
+            {action.changes.map((change) => (
+              <div key={change.field}>
+                <p className="text-zinc-400">{change.field}</p>
+                <p className="font-mono break-all">
+                  <span className="text-red-400 line-through">{change.from}</span>
+                  <span className="text-zinc-500 mx-2">→</span>
+                  <span className="text-green-400">{change.to}</span>
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Calls */}
+        <div className="mb-4 space-y-1 text-xs font-mono text-zinc-400">
+          {action.calls.map((call, i) => (
+            <p key={i} className="break-all">
+              {action.calls.length > 1 && `${i + 1}. `}
+              {shortenAddress(call.to)}.{call.contract.functionName}(
+              {(call.contract.args ?? []).map((arg) => String(arg)).join(', ')})
+            </p>
+          ))}
+        </div>
+
+        {action.warnings.length > 0 && (
+          <div className="mb-4 p-3 bg-amber-900/30 border border-amber-500/30 rounded-xl text-amber-300 text-sm space-y-1">
+            {action.warnings.map((warning) => (
+              <p key={warning}>⚠️ {warning}</p>
+            ))}
+          </div>
+        )}
+
+        {/* Dry run */}
+        <div className="mb-4 text-sm">
+          {dryRun.status === 'running' ? (
+            <p className="text-zinc-500 animate-pulse">Simulating as {shortenAddress(owner)}...</p>
+          ) : dryRun.status === 'passed' ? (
+            <p className="text-green-400">
+              ✓ Dry run as owner passed{action.calls.length > 1 && ' (first call only)'}
+            </p>
+          ) : (
+            <div className="p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300">⚠️ {dryRun.error}</div>
+          )}
+        </div>
+
+        {batch.error && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">⚠️ {batch.error}</div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            disabled={batch.isPending}
+            className="flex-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 font-medium py-3 rounded-xl transition-colors"
+          >
+            {canExecute ? 'Cancel' : 'Close'}
+          </button>
+          <button
+            onClick={onQueue}
+            disabled={busy}
+            className="flex-1 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 font-medium py-3 rounded-xl transition-colors"
+          >
+            🔐 Add to Safe batch
+          </button>
+          {canExecute && (
+            <button
+              onClick={handleConfirm}
+              disabled={busy || dryRun.status !== 'passed'}
+              className="flex-1 bg-orange-500 hover:bg-orange-600 disabled:bg-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
+            >
+              {batch.isPending
+                ? batch.step
+                  ? `👛 Check Wallet (${batch.step.index + 1}/${batch.step.total})...`
+                  : '👛 Check Wallet...'
+                : isConfirming
+                  ? 'Confirming...'
+                  : `Confirm${action.calls.length > 1 ? ` (${batch.supportsBatching ? '1 tx' : `${action.calls.length} txs`})` : ''}`}
+            </button>
+          )}
+        </div>
+        {!canExecute && (
+          <p className="text-zinc-500 text-xs mt-3 text-center">
+            Read-only: only {shortenAddress(owner)} can send this, but it can still go into a Safe batch.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
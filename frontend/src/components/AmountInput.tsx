@@ -0,0 +1,54 @@
+'use client';
+
+import type { ReactNode } from 'react';
+
+interface AmountInputProps {
+  label: ReactNode;
+  // Shown to the right of the label, e.g. the minimum
+  hint?: ReactNode;
+  value: string;
+  onChange: (value: string) => void;
+  // Inline validation message; also turns the input red
+  error?: string | null;
+  // Quick-fill buttons such as MIN / MAX
+  presets?: { label: string; value: string }[];
+}
+
+// Text input for token amounts. Kept as a string so partial input ("1.", "1e")
+// survives while typing; parse it with parseAmount from '@/lib/amount'.
+export function AmountInput({ label, hint, value, onChange, error, presets = [] }: AmountInputProps) {
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-zinc-400 text-sm">{label}</label>
+        {hint && <span className="text-zinc-500 text-xs">{hint}</span>}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="decimal"
+          autoComplete="off"
+          spellCheck={false}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="0.0"
+          aria-invalid={!!error}
+          className={`flex-1 min-w-0 bg-zinc-800 border rounded-xl px-4 py-3 text-white focus:outline-none ${
+            error ? 'border-red-500/70 focus:border-red-500' : 'border-zinc-700 focus:border-orange-500'
+          }`}
+        />
+        {presets.map((preset) => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => onChange(preset.value)}
+            className="px-3 py-2 bg-zinc-800 text-zinc-400 rounded-xl hover:bg-zinc-700 text-sm"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount, useConfig } from 'wagmi';
+import { base } from 'wagmi/chains';
+import { CONTRACTS } from '@/config/contracts';
+import { useContributors } from '@/hooks/useContributors';
+import { formatBps, type ContributorEntry, type ContributorKind } from '@/lib/contributors';
+import { formatTokenAmount, shortenAddress } from '@/lib/format';
+
+type Filter = 'all' | ContributorKind | 'mine';
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'project', label: 'Projects' },
+  { value: 'app', label: 'Apps' },
+  { value: 'mine', label: 'Mine' },
+];
+
+// Most recently paid first, then entries that never received fees
+const byLastFee = (a: ContributorEntry, b: ContributorEntry) => (b.lastFeeAt ?? 0) - (a.lastFeeAt ?? 0);
+
+export function ContributorDirectory() {
+  const { address, chainId: connectedChainId } = useAccount();
+  const config = useConfig();
+  const [filter, setFilter] = useState<Filter>('all');
+
+  // Readable without a wallet; follows the wallet when it's on a supported chain
+  const chainId = connectedChainId && connectedChainId in CONTRACTS ? connectedChainId : base.id;
+  const explorerUrl = config.chains.find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+  const { data, error, isLoading } = useContributors(chainId);
+
+  const isMine = (entry: ContributorEntry) => !!address && entry.recipient.toLowerCase() === address.toLowerCase();
+  const entries = (data?.entries ?? [])
+    .filter((entry) => (filter === 'all' ? true : filter === 'mine' ? isMine(entry) : entry.kind === filter))
+    .sort(byLastFee);
+
+  const addressLink = (target: string) =>
+    explorerUrl ? (
+      <a
+        href={`${explorerUrl}/address/${target}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-mono text-orange-400 hover:text-orange-300"
+      >
+        {shortenAddress(target)}
+      </a>
+    ) : (
+      <span className="font-mono text-zinc-300">{shortenAddress(target)}</span>
+    );
+
+  return (
+    <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-2xl font-bold text-white">💡 Ideas & Apps</h2>
+          {data?.syncing && (
+            <span className="text-xs text-zinc-500 bg-zinc-800 px-2 py-0.5 rounded-full flex items-center gap-1">
+              <span className="w-1.5 h-1.5 bg-amber-500 rounded-full animate-pulse"></span>
+              Indexing fees...
+            </span>
+          )}
+        </div>
+        <div className="flex gap-1 bg-zinc-800 rounded-lg p-1">
+          {FILTERS.filter((f) => f.value !== 'mine' || address).map((f) => (
+            <button
+              key={f.value}
+              onClick={() => setFilter(f.value)}
+              className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                filter === f.value ? 'bg-orange-500 text-white' : 'text-zinc-400 hover:text-white'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-zinc-500 py-4">Loading contributors...</div>
+      ) : error ? (
+        <div className="bg-zinc-800 rounded-xl p-4">
+          <p className="text-zinc-500">Couldn&apos;t load the contributor registry. Please try again later.</p>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-zinc-800 rounded-xl p-4">
+          <p className="text-zinc-500">
+            {filter === 'mine' ? 'None of the registered ideas pay out to this wallet.' : 'Nothing registered yet.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => (
+            <div
+              key={`${entry.kind}-${entry.address}`}
+              className={`bg-zinc-800/50 border rounded-xl p-4 ${isMine(entry) ? 'border-orange-500/50' : 'border-zinc-800'}`}
+            >
+              <div className="flex flex-wrap justify-between items-start gap-2 mb-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-xs uppercase tracking-wide text-zinc-500">
+                      {entry.kind === 'project' ? 'Project' : entry.appType ?? 'App'}
+                    </span>
+                    {!entry.active && (
+                      <span className="text-xs text-zinc-400 bg-zinc-700 px-2 py-0.5 rounded-full">
+                        {entry.kind === 'project' ? 'Unregistered' : 'Inactive'}
+                      </span>
+                    )}
+                    {isMine(entry) && (
+                      <span className="text-xs text-orange-300 bg-orange-900/40 px-2 py-0.5 rounded-full">You</span>
+                    )}
+                  </div>
+                  <p className="text-white font-medium">{entry.ideaDescription || addressLink(entry.address)}</p>
+                </div>
+                {entry.feeBps !== null && (
+                  <span className="text-sm text-zinc-300 bg-zinc-800 px-2 py-1 rounded-lg">{formatBps(entry.feeBps)} fee</span>
+                )}
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">{entry.kind === 'project' ? 'Contract' : 'App'}</span>
+                  {addressLink(entry.address)}
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">{entry.kind === 'project' ? 'Contributor' : 'Creator'}</span>
+                  {addressLink(entry.recipient)}
+                </div>
+              </div>
+
+              <div className="mt-3 pt-3 border-t border-zinc-800">
+                {entry.fees.length === 0 ? (
+                  <p className="text-sm text-zinc-500">No fees received yet</p>
+                ) : (
+                  <>
+                    {entry.fees.map((fee) => (
+                      <div key={fee.token} className="flex justify-between text-sm">
+                        <span className="text-zinc-400">
+                          {formatTokenAmount(BigInt(fee.total), fee.decimals)} {fee.symbol} in fees
+                        </span>
+                        <span className="text-green-400">
+                          {formatTokenAmount(BigInt(fee.contributorShare), fee.decimals)} {fee.symbol} earned
+                        </span>
+                      </div>
+                    ))}
+                    <p className="text-xs text-zinc-500 mt-1">
+                      {entry.feeCount} payment{entry.feeCount === 1 ? '' : 's'}
+                      {entry.lastFeeAt && `, last ${new Date(entry.lastFeeAt * 1000).toLocaleDateString()}`}
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useAccount } from 'wagmi';
+import { useNow } from '@/hooks/useNow';
+import { useTokenMetadata } from '@/hooks/useTokenMetadata';
+import type { LiveEvent, LiveEventType } from '@/hooks/useLiveStakingEvents';
+import { formatDuration, shortenAddress } from '@/lib/format';
+
+const EVENT_LABELS: Record<LiveEventType, { icon: string; label: string; color: string }> = {
+  stake: { icon: '🔥', label: 'Staked', color: 'text-orange-400' },
+  withdraw: { icon: '📤', label: 'Withdrawn', color: 'text-green-400' },
+  rewards: { icon: '🎁', label: 'Rewards deposited', color: 'text-yellow-400' },
+  fee: { icon: '💸', label: 'Fee received', color: 'text-blue-400' },
+};
+
+// Pool activity seen since the page was opened, from useLiveStakingEvents
+export function LiveDeposits({ events }: { events: LiveEvent[] }) {
+  const { chain } = useAccount();
+  const explorerUrl = chain?.blockExplorers?.default.url;
+  const now = useNow(5_000);
+  const { getToken, formatAmount } = useTokenMetadata(events.map((event) => event.token));
+
+  return (
+    <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-white">📡 Live Pool Activity</h2>
+        <span className="text-xs text-zinc-500 bg-zinc-800 px-2 py-0.5 rounded-full flex items-center gap-1">
+          <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></span>
+          Live
+        </span>
+      </div>
+
+      {events.length === 0 ? (
+        <div className="bg-zinc-800 rounded-xl p-4">
+          <p className="text-zinc-500">Waiting for stakes, reward deposits and fees...</p>
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {events.map((event) => {
+            const { icon, label, color } = EVENT_LABELS[event.type];
+            const age = Math.max(now - event.seenAt, 0);
+            return (
+              <div key={event.id} className="flex items-center gap-3 bg-zinc-800/50 border border-zinc-800 rounded-lg p-3">
+                <span className="text-lg">{icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className={`font-medium ${color}`}>{label}</span>
+                    <span className="text-white">
+                      {formatAmount(event.token, event.amount)} {getToken(event.token).symbol}
+                    </span>
+                  </div>
+                  {event.account && (
+                    <p className="text-xs text-zinc-500 font-mono mt-0.5">{shortenAddress(event.account)}</p>
+                  )}
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p className="text-xs text-zinc-400">{age < 60 ? 'just now' : `${formatDuration(age)} ago`}</p>
+                  {explorerUrl && (
+                    <a
+                      href={`${explorerUrl}/tx/${event.transactionHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-orange-400 hover:text-orange-300"
+                    >
+                      View tx ↗
+                    </a>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useAccount } from 'wagmi';
+import { useStakingPosition } from '@/hooks/useStakingPosition';
+import { formatDuration, formatTokenAmount } from '@/lib/format';
+import type { PoolSnapshot } from '@/lib/pool';
+
+// Pool totals for every visitor. Starts from the server-rendered snapshot and
+// switches to the live reads once a wallet is connected to the same chain.
+export function PoolOverview({ snapshot }: { snapshot: PoolSnapshot }) {
+  const { address, chainId } = useAccount();
+  const { position } = useStakingPosition(address, chainId === snapshot.chainId ? chainId : undefined);
+
+  const { symbol, decimals } = snapshot.stakingToken;
+  const totalStaked = position?.totalStaked ?? BigInt(snapshot.totalStaked);
+  const totalSupply = position?.totalSupply ?? BigInt(snapshot.totalSupply);
+  const stakedShare = totalSupply > 0n ? Number((totalStaked * 10_000n) / totalSupply) / 100 : 0;
+
+  const stats = [
+    { label: 'Total Staked', value: `${formatTokenAmount(totalStaked, decimals, 0)} ${symbol}` },
+    { label: 'Stakers', value: snapshot.activeStakers?.toLocaleString() ?? '—', note: snapshot.syncing ? 'indexing' : undefined },
+    { label: 'Supply Staked', value: `${stakedShare.toFixed(2)}%` },
+    { label: 'Unstake Cooldown', value: formatDuration(snapshot.cooldownPeriod) },
+  ];
+
+  return (
+    <div className="mb-6 space-y-4">
+      {snapshot.paused && (
+        <div className="p-3 bg-amber-900/30 border border-amber-500/30 rounded-xl text-amber-300 text-sm">
+          ⏸️ Staking is paused: new stakes and compounding are disabled. Unstaking, withdrawals and claims still work.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-zinc-900/30 border border-zinc-800 rounded-xl p-4 text-center">
+            <div className="text-xl font-bold text-white">{stat.value}</div>
+            <div className="text-xs text-zinc-500">
+              {stat.label}
+              {stat.note && <span className="text-zinc-600"> · {stat.note}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {snapshot.rewardTokens.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+          <span className="text-zinc-500">Rewards paid in</span>
+          {snapshot.rewardTokens.map((token) => (
+            <span
+              key={token.token}
+              className={`px-2 py-0.5 rounded-full border ${
+                token.active ? 'border-orange-500/30 bg-orange-500/10 text-orange-300' : 'border-zinc-700 text-zinc-500'
+              }`}
+              title={token.active ? token.token : `${token.token} (deprecated, still claimable)`}
+            >
+              {token.symbol}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
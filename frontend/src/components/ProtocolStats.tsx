@@ -0,0 +1,145 @@
+'use client';
+
+import { formatUnits } from 'viem';
+import { ActivityChart } from '@/components/ActivityChart';
+import { useProtocolStats } from '@/hooks/useProtocolStats';
+import { formatTokenAmount, shortenAddress } from '@/lib/format';
+import type { VesterStats } from '@/lib/stats';
+
+const compact = (value: number) => value.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+function VestingBar({ vester }: { vester: VesterStats }) {
+  const total = BigInt(vester.total);
+  const parts = [
+    { label: 'Released', amount: BigInt(vester.released), color: 'bg-orange-500' },
+    { label: 'Releasable', amount: BigInt(vester.releasable), color: 'bg-yellow-500' },
+    { label: 'Vesting', amount: BigInt(vester.remaining), color: 'bg-zinc-600' },
+    { label: 'Cancelled', amount: BigInt(vester.cancelled), color: 'bg-zinc-800' },
+  ].filter((part) => part.amount > 0n);
+  const percent = (amount: bigint) => (total > 0n ? Number((amount * 10_000n) / total) / 100 : 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-3 rounded-full overflow-hidden bg-zinc-800">
+        {parts.map((part) => (
+          <div
+            key={part.label}
+            className={`${part.color} transition-all duration-500`}
+            style={{ width: `${percent(part.amount)}%` }}
+            title={`${part.label}: ${formatTokenAmount(part.amount, vester.decimals, 0)} ${vester.symbol}`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 text-xs">
+        {parts.map((part) => (
+          <div key={part.label} className="flex items-center gap-1">
+            <div className={`w-2 h-2 rounded-full ${part.color}`} />
+            <span className="text-zinc-400">{part.label}</span>
+            <span className="text-zinc-600">
+              ({formatTokenAmount(part.amount, vester.decimals, 0)} · {percent(part.amount)}%)
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// On-chain section of the Dragon's Den, from /api/stats
+export function ProtocolStats({ chainId }: { chainId: number }) {
+  const { data, isLoading, error } = useProtocolStats(chainId);
+
+  if (isLoading) return <div className="text-center text-zinc-500 py-8">Loading on-chain stats...</div>;
+  if (error || !data) return <div className="text-center text-zinc-500 py-8">On-chain stats are unavailable right now.</div>;
+
+  const staked = Object.fromEntries(data.stakedByDay.map((point) => [point.date, Number(formatUnits(BigInt(point.totalStaked), 18))]));
+  const maxFeeCount = Math.max(...data.apps.map((app) => app.feeCount), 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-center gap-2">
+        <h2 className="text-xl font-bold text-white">⛓️ On-chain Stats</h2>
+        {data.syncing && <span className="text-xs text-zinc-500 bg-zinc-800 px-2 py-0.5 rounded-full">Indexing...</span>}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-zinc-900/30 border border-zinc-800 rounded-xl p-4">
+          <div className="flex justify-between items-baseline mb-4">
+            <h3 className="font-semibold text-white">🔥 Total Staked</h3>
+            <span className="text-sm text-zinc-400">
+              {formatTokenAmount(BigInt(data.totalStaked), 18, 0)} EMBER · {data.activeStakers} stakers
+            </span>
+          </div>
+          <ActivityChart data={staked} formatValue={(value) => `${compact(value)} EMBER`} labelEvery={7} />
+        </div>
+
+        <div className="bg-zinc-900/30 border border-zinc-800 rounded-xl p-4">
+          <h3 className="font-semibold text-white mb-4">⏳ Vesting</h3>
+          {data.vester && BigInt(data.vester.total) > 0n ? (
+            <>
+              <p className="text-sm text-zinc-400 mb-3">
+                {formatTokenAmount(BigInt(data.vester.total), data.vester.decimals, 0)} {data.vester.symbol} scheduled ·{' '}
+                {data.vester.activeSchedules} active
+              </p>
+              <VestingBar vester={data.vester} />
+            </>
+          ) : (
+            <p className="text-sm text-zinc-500">No vesting schedules yet.</p>
+          )}
+        </div>
+
+        <div className="bg-zinc-900/30 border border-zinc-800 rounded-xl p-4">
+          <h3 className="font-semibold text-white mb-4">🎁 Rewards Distributed</h3>
+          {data.rewards.length === 0 ? (
+            <p className="text-sm text-zinc-500">No rewards deposited yet.</p>
+          ) : (
+            <div className="space-y-2 text-sm">
+              {data.rewards.map((reward) => (
+                <div key={reward.token} className="flex justify-between gap-3">
+                  <span className="text-zinc-400">{reward.symbol}</span>
+                  <span className="text-white">
+                    {formatTokenAmount(BigInt(reward.deposited), reward.decimals)}
+                    <span className="text-zinc-500"> · {formatTokenAmount(BigInt(reward.claimed), reward.decimals)} claimed</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-zinc-900/30 border border-zinc-800 rounded-xl p-4">
+          <h3 className="font-semibold text-white mb-4">💸 Fees by App</h3>
+          {data.apps.length === 0 ? (
+            <p className="text-sm text-zinc-500">No fees collected yet.</p>
+          ) : (
+            <div className="space-y-3 text-sm">
+              {data.apps.slice(0, 6).map((app) => (
+                <div key={app.address}>
+                  <div className="flex justify-between gap-3 mb-1">
+                    <span className="font-mono text-zinc-400">
+                      {shortenAddress(app.address)}
+                      {app.source === 'project' && <span className="text-zinc-600 font-sans"> · legacy</span>}
+                    </span>
+                    <span className="text-white">
+                      {app.fees
+                        .slice(0, 2)
+                        .map((fee) => `${formatTokenAmount(BigInt(fee.total), fee.decimals)} ${fee.symbol}`)
+                        .join(' + ')}
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-orange-600 to-orange-400"
+                      style={{ width: `${(app.feeCount / maxFeeCount) * 100}%` }}
+                      title={`${app.feeCount} fee payments`}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
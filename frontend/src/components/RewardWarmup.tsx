@@ -0,0 +1,29 @@
+'use client';
+
+import { formatCountdown, formatDuration } from '@/lib/format';
+
+// Banner shown while a new stake is inside EmberStaking's MIN_STAKE_DURATION window
+export function RewardWarmup({
+  remaining,
+  minStakeDuration,
+  detailed = false,
+}: {
+  remaining: number;
+  minStakeDuration: bigint | undefined;
+  detailed?: boolean;
+}) {
+  return (
+    <div className="p-3 bg-amber-900/30 border border-amber-500/30 rounded-xl text-amber-200 text-sm">
+      <p className="font-medium">
+        ⏳ Rewards activate in <span className="font-mono">{formatCountdown(remaining)}</span>
+      </p>
+      {detailed && (
+        <p className="text-amber-200/70 text-xs mt-1">
+          New stakes must wait {minStakeDuration !== undefined ? formatDuration(minStakeDuration) : 'a short warm-up'} before
+          they earn (this blocks flash-stake attacks), so your pending rewards show 0 until then. Fees deposited during the
+          warm-up still count once it ends, but staking more or claiming before then forfeits them.
+        </p>
+      )}
+    </div>
+  );
+}
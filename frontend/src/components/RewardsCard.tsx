@@ -1,54 +1,101 @@
 'use client';
 
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { formatEther } from 'viem';
-import { CONTRACTS, STAKING_ABI, FEE_SPLITTER_ABI } from '@/config/contracts';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import { parseEventLogs, type Log } from 'viem';
+import { CONTRACTS, STAKING_ABI, FEE_SPLITTER_ABI, ERC20_ABI, MIN_STAKE } from '@/config/contracts';
+import { useStakingPosition } from '@/hooks/useStakingPosition';
+import { useTokenMetadata } from '@/hooks/useTokenMetadata';
+import { useRewardWarmup } from '@/hooks/useRewardWarmup';
+import { useSimulatedWrite } from '@/hooks/useSimulatedWrite';
+import { useBatchedCalls } from '@/hooks/useBatchedCalls';
+import { RewardWarmup } from '@/components/RewardWarmup';
+import { useTrackedTransaction } from '@/components/TransactionProvider';
+import { prepareCall } from '@/lib/batch';
 
 export function RewardsCard() {
   const { address, chainId } = useAccount();
   
   const contracts = chainId ? CONTRACTS[chainId as keyof typeof CONTRACTS] : null;
+  const warmup = useRewardWarmup(address, chainId);
   
-  // Read staker rewards
-  const { data: earnedAll, refetch: refetchEarned } = useReadContract({
-    address: contracts?.STAKING as `0x${string}`,
-    abi: STAKING_ABI,
-    functionName: 'earnedAll',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!contracts?.STAKING },
-  });
-  
-  // Read contributor rewards
-  const { data: contributorClaims, refetch: refetchContributor } = useReadContract({
-    address: contracts?.FEE_SPLITTER as `0x${string}`,
-    abi: FEE_SPLITTER_ABI,
-    functionName: 'getPendingClaims',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!contracts?.FEE_SPLITTER },
-  });
-  
-  // Write functions
-  const { writeContract: claimStakerRewards, data: claimStakerHash, isPending: isClaimingStaker } = useWriteContract();
-  const { writeContract: claimAndRestake, data: restakeHash, isPending: isRestaking } = useWriteContract();
-  const { writeContract: claimContributorRewards, data: claimContributorHash, isPending: isClaimingContributor } = useWriteContract();
-  
-  // Wait for transactions
-  const { isSuccess: isClaimStakerSuccess } = useWaitForTransactionReceipt({ hash: claimStakerHash });
-  const { isSuccess: isRestakeSuccess } = useWaitForTransactionReceipt({ hash: restakeHash });
-  const { isSuccess: isClaimContributorSuccess } = useWaitForTransactionReceipt({ hash: claimContributorHash });
-  
-  // Refetch on success
-  if (isClaimStakerSuccess) refetchEarned();
-  if (isRestakeSuccess) refetchEarned();
-  if (isClaimContributorSuccess) refetchContributor();
+  // Staker and contributor rewards, plus the position for claim-all-then-stake
+  const { position, refetch: refetchPosition } = useStakingPosition(address, chainId);
+  const stakedBalance = position?.stakedBalance;
+  const allowance = position?.allowance;
+  
+  // Write functions (simulated first, reverts are decoded before the wallet prompt)
+  const { write: claimStakerRewards, data: claimStakerHash, isPending: isClaimingStaker, isSimulating: isCheckingStaker, error: claimStakerError } = useSimulatedWrite();
+  const { write: claimToken, data: claimTokenHash, isPending: isClaimingToken, isSimulating: isCheckingToken, error: claimTokenError, variables: claimTokenVars } = useSimulatedWrite();
+  const { write: claimAndRestake, data: restakeHash, isPending: isRestaking, isSimulating: isCheckingRestake, error: restakeError } = useSimulatedWrite();
+  const { write: claimContributorRewards, data: claimContributorHash, isPending: isClaimingContributor, isSimulating: isCheckingContributor, error: claimContributorError } = useSimulatedWrite();
+  
+  // Wait for transactions (reads are invalidated by the TransactionProvider on confirmation)
+  const { logs: claimStakerLogs, isLoading: isClaimStakerLoading } = useTrackedTransaction(claimStakerHash);
+  const { isLoading: isClaimTokenLoading, isSuccess: isClaimTokenSuccess } = useTrackedTransaction(claimTokenHash);
+  const { isLoading: isRestakeLoading } = useTrackedTransaction(restakeHash);
+  const { isLoading: isClaimContributorLoading } = useTrackedTransaction(claimContributorHash);
+  
+  // Claim everything, then stake the EMBER part: one bundle on smart wallets, sequential txs otherwise
+  const claimAndStake = useBatchedCalls();
+  const { logs: claimAndStakeLogs, isLoading: isClaimAndStakeLoading } = useTrackedTransaction(claimAndStake.id);
+  
+  const [failedClaims, setFailedClaims] = useState<{ token: `0x${string}`; amount: bigint }[]>([]);
+  const [claimedToken, setClaimedToken] = useState<`0x${string}` | null>(null);
+  const [checkingToken, setCheckingToken] = useState<`0x${string}` | null>(null);
+  
+  // claimRewards() never reverts on a bad token transfer; it emits RewardClaimFailed
+  // and keeps the reward owed, so check the receipt before reporting success
+  const checkFailedClaims = useCallback((logs: Log[] | undefined) => {
+    if (!logs || !address) return;
+    const failed = parseEventLogs({
+      abi: STAKING_ABI,
+      eventName: 'RewardClaimFailed',
+      logs,
+    }).filter((log) => log.args.user.toLowerCase() === address.toLowerCase());
+    setFailedClaims(failed.map((log) => ({ token: log.args.token, amount: log.args.amount })));
+  }, [address]);
+  
+  useEffect(() => checkFailedClaims(claimStakerLogs), [claimStakerLogs, checkFailedClaims]);
+  useEffect(() => checkFailedClaims(claimAndStakeLogs), [claimAndStakeLogs, checkFailedClaims]);
+  
+  // earnedAll jumps from stored-only to full accrual when the warm-up ends
+  const { isWarmingUp } = warmup;
+  useEffect(() => {
+    if (!isWarmingUp) refetchPosition();
+  }, [isWarmingUp, refetchPosition]);
+  
+  const claimingToken = claimTokenVars?.args?.[0] as `0x${string}` | undefined;
+  const stakerError = claimStakerError || claimTokenError || restakeError || claimAndStake.error;
+  
+  useEffect(() => {
+    if (!isClaimTokenSuccess || !claimingToken) return;
+    setClaimedToken(claimingToken);
+    setFailedClaims((prev) => prev.filter((f) => f.token.toLowerCase() !== claimingToken.toLowerCase()));
+  }, [isClaimTokenSuccess, claimingToken]);
   
   const handleClaimStakerRewards = () => {
     if (!contracts?.STAKING) return;
+    setFailedClaims([]);
+    setClaimedToken(null);
     claimStakerRewards({
       address: contracts.STAKING as `0x${string}`,
       abi: STAKING_ABI,
       functionName: 'claimRewards',
-    });
+    }, { label: 'Claim all staker rewards' });
+  };
+  
+  const handleClaimToken = (token: `0x${string}`) => {
+    if (!contracts?.STAKING) return;
+    setClaimedToken(null);
+    setCheckingToken(token);
+    claimToken({
+      address: contracts.STAKING as `0x${string}`,
+      abi: STAKING_ABI,
+      functionName: 'claimReward',
+      args: [token],
+    }, { label: `Claim ${getTokenSymbol(token)} rewards` });
   };
   
   const handleClaimAndRestake = () => {
@@ -57,7 +104,35 @@ export function RewardsCard() {
       address: contracts.STAKING as `0x${string}`,
       abi: STAKING_ABI,
       functionName: 'claimAndRestakeEmber',
-    });
+    }, { label: 'Compound EMBER rewards' });
+  };
+  
+  const handleClaimAllAndStake = async () => {
+    if (!contracts?.STAKING || !emberReward) return;
+    setFailedClaims([]);
+    setClaimedToken(null);
+    const calls = [
+      prepareCall({
+        address: contracts.STAKING as `0x${string}`,
+        abi: STAKING_ABI,
+        functionName: 'claimRewards',
+      }),
+    ];
+    if (allowance === undefined || allowance < emberReward) {
+      calls.push(prepareCall({
+        address: contracts.EMBER as `0x${string}`,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [contracts.STAKING as `0x${string}`, emberReward],
+      }));
+    }
+    calls.push(prepareCall({
+      address: contracts.STAKING as `0x${string}`,
+      abi: STAKING_ABI,
+      functionName: 'stake',
+      args: [emberReward],
+    }));
+    await claimAndStake.send(calls, { label: `Claim all & stake ${formatAmount(contracts.EMBER, emberReward, 2)} EMBER` });
   };
   
   const handleClaimContributorRewards = () => {
@@ -66,32 +141,28 @@ export function RewardsCard() {
       address: contracts.FEE_SPLITTER as `0x${string}`,
       abi: FEE_SPLITTER_ABI,
       functionName: 'claimContributorRewards',
-    });
+    }, { label: 'Claim contributor rewards' });
   };
   
   // Parse rewards
-  const stakerRewards = earnedAll ? {
-    tokens: earnedAll[0] || [],
-    amounts: earnedAll[1] || [],
-  } : { tokens: [], amounts: [] };
-  
-  const contributorRewards = contributorClaims ? {
-    tokens: contributorClaims[0] || [],
-    amounts: contributorClaims[1] || [],
-  } : { tokens: [], amounts: [] };
+  const stakerRewards = position?.earned ?? { tokens: [], amounts: [] };
+  const contributorRewards = position?.contributorClaims ?? { tokens: [], amounts: [] };
   
   const hasStakerRewards = stakerRewards.amounts.some(a => a > 0n);
   const hasContributorRewards = contributorRewards.amounts.some(a => a > 0n);
-  const hasEmberRewards = stakerRewards.tokens.some((token, i) => 
-    contracts && token.toLowerCase() === contracts.EMBER.toLowerCase() && stakerRewards.amounts[i] > 0n
+  const emberIndex = stakerRewards.tokens.findIndex((token) => 
+    contracts && token.toLowerCase() === contracts.EMBER.toLowerCase()
   );
+  const emberReward = emberIndex >= 0 ? stakerRewards.amounts[emberIndex] : 0n;
+  const hasEmberRewards = emberReward > 0n;
+  // stake() enforces the minimum on the resulting position, e.g. after a full unstake
+  const canStakeEmberReward = hasEmberRewards && stakedBalance !== undefined && stakedBalance + emberReward >= MIN_STAKE;
+  const claimAndStakeTxCount = claimAndStake.supportsBatching
+    ? 1
+    : allowance !== undefined && allowance >= emberReward ? 2 : 3;
   
-  const getTokenSymbol = (tokenAddress: string) => {
-    if (!contracts) return 'TOKEN';
-    if (tokenAddress.toLowerCase() === contracts.WETH.toLowerCase()) return 'WETH';
-    if (tokenAddress.toLowerCase() === contracts.EMBER.toLowerCase()) return 'EMBER';
-    return 'TOKEN';
-  };
+  const { getToken, formatAmount } = useTokenMetadata([...stakerRewards.tokens, ...contributorRewards.tokens]);
+  const getTokenSymbol = (tokenAddress: string) => getToken(tokenAddress).symbol;
   
   if (!contracts) {
     return null;
@@ -106,16 +177,38 @@ export function RewardsCard() {
           Earn fees from every autonomous build
         </p>
         
+        {warmup.isWarmingUp && (
+          <div className="mb-4">
+            <RewardWarmup remaining={warmup.remaining} minStakeDuration={warmup.minStakeDuration} detailed />
+          </div>
+        )}
+        
         {stakerRewards.tokens.length > 0 ? (
           <div className="space-y-2 mb-4">
-            {stakerRewards.tokens.map((token, i) => (
-              <div key={token} className="flex justify-between items-center bg-zinc-800 rounded-xl p-3">
-                <span className="text-zinc-400">{getTokenSymbol(token)}</span>
-                <span className="text-white font-bold">
-                  {formatEther(stakerRewards.amounts[i])}
-                </span>
-              </div>
-            ))}
+            {stakerRewards.tokens.map((token, i) => {
+              const isThisClaiming = claimingToken?.toLowerCase() === token.toLowerCase() && (isClaimingToken || isClaimTokenLoading);
+              const isThisChecking = checkingToken?.toLowerCase() === token.toLowerCase() && isCheckingToken;
+              const isThisClaimed = claimedToken?.toLowerCase() === token.toLowerCase() && stakerRewards.amounts[i] === 0n;
+              return (
+                <div key={token} className="flex justify-between items-center gap-3 bg-zinc-800 rounded-xl p-3">
+                  <span className="text-zinc-400">{getTokenSymbol(token)}</span>
+                  <span className="flex-1 text-right text-white font-bold">
+                    {formatAmount(token, stakerRewards.amounts[i], 6)}
+                  </span>
+                  {isThisClaimed ? (
+                    <span className="px-3 py-1 text-green-400 text-sm">✓ Claimed</span>
+                  ) : (
+                    <button
+                      onClick={() => handleClaimToken(token)}
+                      disabled={stakerRewards.amounts[i] === 0n || isCheckingToken || isClaimingToken || isClaimTokenLoading}
+                      className="px-3 py-1 bg-green-600 hover:bg-green-700 disabled:bg-zinc-700 text-white text-sm font-bold rounded-lg transition-colors"
+                    >
+                      {isThisChecking ? 'Checking...' : isThisClaiming ? (isClaimingToken ? 'Wallet...' : 'Claiming...') : 'Claim'}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
           </div>
         ) : (
           <div className="bg-zinc-800 rounded-xl p-4 mb-4">
@@ -123,32 +216,65 @@ export function RewardsCard() {
           </div>
         )}
         
+        {failedClaims.length > 0 && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">
+            ⚠️ {failedClaims.map((f) => `${formatAmount(f.token, f.amount, 6)} ${getTokenSymbol(f.token)}`).join(', ')} could not be
+            transferred. {failedClaims.length === 1 ? 'It is' : 'They are'} still owed to you. Try claiming{' '}
+            {failedClaims.length === 1 ? 'it' : 'each token'} individually.
+          </div>
+        )}
+        
+        {stakerError && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">
+            ⚠️ {stakerError}
+          </div>
+        )}
+        
         <div className="flex gap-3">
           <button
             onClick={handleClaimStakerRewards}
-            disabled={!hasStakerRewards || isClaimingStaker}
+            disabled={!hasStakerRewards || isCheckingStaker || isClaimingStaker || isClaimStakerLoading}
             className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
           >
-            {isClaimingStaker ? 'Claiming...' : 'Claim All'}
+            {isCheckingStaker ? 'Checking...' : isClaimingStaker || isClaimStakerLoading ? 'Claiming...' : 'Claim All'}
           </button>
           <button
             onClick={handleClaimAndRestake}
-            disabled={!hasEmberRewards || isRestaking}
+            disabled={!hasEmberRewards || isCheckingRestake || isRestaking || isRestakeLoading}
             className="flex-1 bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-600 hover:to-amber-600 disabled:bg-zinc-700 disabled:from-zinc-700 disabled:to-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
           >
-            {isRestaking ? 'Compounding...' : '🔄 Compound EMBER'}
+            {isCheckingRestake ? 'Checking...' : isRestaking || isRestakeLoading ? 'Compounding...' : '🔄 Compound EMBER'}
           </button>
         </div>
+        <button
+          onClick={handleClaimAllAndStake}
+          disabled={!canStakeEmberReward || claimAndStake.isPending || isClaimAndStakeLoading}
+          className="w-full mt-3 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-500 text-zinc-300 font-medium py-2 rounded-xl border border-zinc-700 transition-colors"
+        >
+          {claimAndStake.isPending
+            ? claimAndStake.step
+              ? `👛 Step ${claimAndStake.step.index + 1} of ${claimAndStake.step.total}...`
+              : '👛 Check Wallet...'
+            : isClaimAndStakeLoading
+              ? 'Confirming...'
+              : `🔥 Claim All & Stake EMBER (${claimAndStakeTxCount} tx${claimAndStakeTxCount === 1 ? '' : 's'})`}
+        </button>
         <p className="text-zinc-500 text-xs mt-2 text-center">
           Compound: Claims EMBER rewards and auto-restakes them
         </p>
+        <p className="text-zinc-500 text-xs mt-1 text-center">
+          Claim All &amp; Stake: claims every reward token to your wallet and stakes the EMBER part
+        </p>
       </div>
       
       {/* Contributor Rewards */}
       <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
         <h2 className="text-2xl font-bold text-white mb-4">💡 Idea Contributor Rewards</h2>
         <p className="text-zinc-400 text-sm mb-4">
-          Suggested an idea that got built? Claim your share here!
+          Suggested an idea that got built? Claim your share here!{' '}
+          <Link href="/contributors" className="text-orange-400 hover:text-orange-300">
+            See what every idea has earned →
+          </Link>
         </p>
         
         {contributorRewards.tokens.length > 0 && hasContributorRewards ? (
@@ -158,7 +284,7 @@ export function RewardsCard() {
                 <div key={token} className="flex justify-between items-center bg-zinc-800 rounded-xl p-3">
                   <span className="text-zinc-400">{getTokenSymbol(token)}</span>
                   <span className="text-white font-bold">
-                    {formatEther(contributorRewards.amounts[i])}
+                    {formatAmount(token, contributorRewards.amounts[i], 6)}
                   </span>
                 </div>
               )
@@ -170,12 +296,18 @@ export function RewardsCard() {
           </div>
         )}
         
+        {claimContributorError && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">
+            ⚠️ {claimContributorError}
+          </div>
+        )}
+        
         <button
           onClick={handleClaimContributorRewards}
-          disabled={!hasContributorRewards || isClaimingContributor}
+          disabled={!hasContributorRewards || isCheckingContributor || isClaimingContributor || isClaimContributorLoading}
           className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
         >
-          {isClaimingContributor ? 'Claiming...' : 'Claim Contributor Rewards'}
+          {isCheckingContributor ? 'Checking...' : isClaimingContributor || isClaimContributorLoading ? 'Claiming...' : 'Claim Contributor Rewards'}
         </button>
       </div>
     </div>
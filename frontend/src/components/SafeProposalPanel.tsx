@@ -0,0 +1,217 @@
+'use client';
+
+import { useState } from 'react';
+import { isAddress } from 'viem';
+import { useReadContracts } from 'wagmi';
+import { ADMIN_CONTRACT_NAMES, type AdminAction, type AdminContract } from '@/lib/admin';
+import {
+  MULTI_SEND_CALL_ONLY,
+  SAFE_ABI,
+  SafeOperation,
+  buildTxBuilderBatch,
+  defaultMultiSend,
+  downloadTxBuilderBatch,
+  hashSafeTransaction,
+  toSafeTransaction,
+  type MultiSendDeployment,
+} from '@/lib/safe';
+import { shortenAddress } from '@/lib/format';
+
+interface SafeProposalPanelProps {
+  chainId: number;
+  actions: AdminAction[];
+  owners: Record<AdminContract, `0x${string}` | undefined>;
+  onRemove: (index: number) => void;
+  onClear: () => void;
+}
+
+const inputClass =
+  'w-full bg-zinc-800 border border-zinc-700 rounded-xl px-4 py-2 text-white text-sm font-mono focus:outline-none focus:border-orange-500';
+
+// Queued admin actions, exported as one Safe proposal instead of being sent
+// from the connected wallet. Works without a deployed Safe (nonce entered by
+// hand) so a batch can be prepared ahead of the ownership transfer.
+export function SafeProposalPanel({ chainId, actions, owners, onRemove, onClear }: SafeProposalPanelProps) {
+  // Undefined until edited, so the field can be cleared without the default coming back
+  const [safeInput, setSafeInput] = useState<string>();
+  const [nonceInput, setNonceInput] = useState('');
+  const [multiSendId, setMultiSendId] = useState<MultiSendDeployment['id']>();
+  const [copied, setCopied] = useState(false);
+
+  // Default to the owner of the first queued contract, which is the Safe once ownership has moved
+  const safeValue = safeInput ?? owners[actions[0].contract] ?? '';
+  const safe = isAddress(safeValue) ? safeValue : undefined;
+  const { data: safeData } = useReadContracts({
+    contracts: [
+      { address: safe, abi: SAFE_ABI, functionName: 'nonce', chainId },
+      { address: safe, abi: SAFE_ABI, functionName: 'VERSION', chainId },
+      { address: safe, abi: SAFE_ABI, functionName: 'getThreshold', chainId },
+      { address: safe, abi: SAFE_ABI, functionName: 'getOwners', chainId },
+    ],
+    query: { enabled: !!safe },
+  });
+  const [onChainNonce, version, threshold, signers] = safeData?.map((r) => r.result) ?? [];
+  const isSafe = onChainNonce !== undefined;
+
+  // Entered by hand when other proposals are already queued, or the Safe isn't deployed yet
+  const nonce = /^\d+$/.test(nonceInput) ? BigInt(nonceInput) : safeData && ((onChainNonce as bigint | undefined) ?? 0n);
+
+  const calls = actions.flatMap((action) => action.calls);
+  const multiSend =
+    MULTI_SEND_CALL_ONLY.find((deployment) => deployment.id === multiSendId) ?? defaultMultiSend(version as string | undefined);
+  const transaction = toSafeTransaction(calls, multiSend);
+  const safeTxHash =
+    safe && nonce !== undefined
+      ? hashSafeTransaction({ chainId, safe, nonce, version: version as string | undefined, transaction })
+      : undefined;
+
+  // Contracts the Safe doesn't own yet; their calls revert until ownership is transferred
+  const notOwned = safe
+    ? Array.from(new Set(actions.map((action) => action.contract))).filter(
+        (contract) => owners[contract] && owners[contract]!.toLowerCase() !== safe.toLowerCase()
+      )
+    : [];
+
+  const handleDownload = () => {
+    if (!safe) return;
+    const batch = buildTxBuilderBatch({
+      chainId,
+      safe,
+      name: `Ember admin (${actions.length} action${actions.length === 1 ? '' : 's'})`,
+      description: actions.map((action) => `${ADMIN_CONTRACT_NAMES[action.contract]}: ${action.title}`).join('; '),
+      calls,
+    });
+    downloadTxBuilderBatch(`ember-admin-${chainId}-${batch.createdAt}.json`, batch);
+  };
+
+  const handleCopy = async () => {
+    if (!safeTxHash) return;
+    await navigator.clipboard.writeText(safeTxHash);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-white">🔐 Safe proposal</h2>
+        <button onClick={onClear} className="text-zinc-500 hover:text-zinc-300 text-sm">
+          Clear
+        </button>
+      </div>
+
+      <ol className="space-y-2 mb-4">
+        {actions.map((action, i) => (
+          <li key={i} className="flex justify-between items-center gap-3 bg-zinc-800 rounded-xl px-3 py-2 text-sm">
+            <span>
+              <span className="text-zinc-500">{i + 1}. {ADMIN_CONTRACT_NAMES[action.contract]} · </span>
+              <span className="text-white">{action.title}</span>
+            </span>
+            <button onClick={() => onRemove(i)} className="text-zinc-500 hover:text-red-400" aria-label="Remove">
+              ✕
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="grid sm:grid-cols-2 gap-3 mb-4">
+        <label className="block">
+          <span className="text-zinc-400 text-xs">Safe address</span>
+          <input
+            value={safeValue}
+            onChange={(e) => setSafeInput(e.target.value)}
+            placeholder="0x..."
+            spellCheck={false}
+            autoComplete="off"
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+        <label className="block">
+          <span className="text-zinc-400 text-xs">Nonce</span>
+          <input
+            value={nonceInput}
+            onChange={(e) => setNonceInput(e.target.value)}
+            placeholder={isSafe ? (onChainNonce as bigint).toString() : '0'}
+            inputMode="numeric"
+            autoComplete="off"
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+        {calls.length > 1 && (
+          <label className="block sm:col-span-2">
+            <span className="text-zinc-400 text-xs">MultiSendCallOnly</span>
+            <select
+              value={multiSend.id}
+              onChange={(e) => setMultiSendId(e.target.value as MultiSendDeployment['id'])}
+              className={`${inputClass} mt-1`}
+            >
+              {MULTI_SEND_CALL_ONLY.map((deployment) => (
+                <option key={deployment.id} value={deployment.id}>
+                  {deployment.label} · {deployment.address}
+                </option>
+              ))}
+            </select>
+            <span className="block text-zinc-500 text-xs mt-1">
+              {version ? `Safe v${version}` : 'Safe version unknown'}; the hash only matches if the Safe batches through this
+              deployment. v1.3.0 Safes on Base often use the eip155 one.
+            </span>
+          </label>
+        )}
+      </div>
+
+      <p className="text-zinc-500 text-xs mb-4">
+        {!safe
+          ? 'Enter the Safe that will propose these calls.'
+          : isSafe
+            ? `Safe v${version} · ${threshold}/${(signers as readonly string[]).length} signers · next nonce ${onChainNonce}`
+            : 'No Safe deployed at this address on this network; enter the nonce it will have.'}
+      </p>
+
+      {notOwned.length > 0 && (
+        <div className="mb-4 p-3 bg-amber-900/30 border border-amber-500/30 rounded-xl text-amber-300 text-sm space-y-1">
+          {notOwned.map((contract) => (
+            <p key={contract}>
+              ⚠️ {ADMIN_CONTRACT_NAMES[contract]} is owned by {shortenAddress(owners[contract]!)}, not this Safe. Its calls will
+              revert until ownership is transferred.
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-zinc-800 rounded-xl p-3 mb-4 text-xs font-mono text-zinc-400 space-y-1 break-all">
+        <p>
+          {calls.length} call{calls.length === 1 ? '' : 's'} ·{' '}
+          {transaction.operation === SafeOperation.DelegateCall
+            ? `delegatecall MultiSendCallOnly ${multiSend.label} ${transaction.to}`
+            : `call ${shortenAddress(transaction.to)}`}
+        </p>
+        {safeTxHash && (
+          <p>
+            safeTxHash <span className="text-white">{safeTxHash}</span>
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleDownload}
+          disabled={!safe}
+          className="flex-1 bg-orange-500 hover:bg-orange-600 disabled:bg-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
+        >
+          ⬇️ Transaction Builder JSON
+        </button>
+        <button
+          onClick={handleCopy}
+          disabled={!safeTxHash}
+          className="flex-1 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-600 text-zinc-300 font-medium py-3 rounded-xl transition-colors"
+        >
+          {copied ? '✓ Copied' : '📋 Copy Safe tx hash'}
+        </button>
+      </div>
+      <p className="text-zinc-500 text-xs mt-3">
+        Import the JSON in Safe{'{'}Wallet{'}'} → Apps → Transaction Builder. Signers can compare the hash with the one
+        their wallet shows; it only matches when the builder proposes the same calls at this nonce.
+      </p>
+    </div>
+  );
+}
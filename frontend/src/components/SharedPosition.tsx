@@ -0,0 +1,58 @@
+'use client';
+
+import { useAccount } from 'wagmi';
+import { formatTokenAmount, shortenAddress } from '@/lib/format';
+import type { PoolAccountSnapshot, PoolSnapshot } from '@/lib/pool';
+
+// Someone else's position, for /staking/[address] links shared on X
+export function SharedPosition({ position, snapshot }: { position: PoolAccountSnapshot; snapshot: PoolSnapshot | null }) {
+  const { address } = useAccount();
+  const isOwn = address?.toLowerCase() === position.account.toLowerCase();
+  const decimals = snapshot?.stakingToken.decimals ?? 18;
+  const symbol = snapshot?.stakingToken.symbol ?? 'EMBER';
+  const staked = BigInt(position.stakedBalance);
+  const pending = BigInt(position.pendingUnstake);
+  const totalStaked = snapshot ? BigInt(snapshot.totalStaked) : 0n;
+  const poolShare = totalStaked > 0n ? Number((staked * 10_000n) / totalStaked) / 100 : 0;
+
+  return (
+    <div className="mb-6 bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-white">
+          🔥 {isOwn ? 'Your position' : <span className="font-mono">{shortenAddress(position.account)}</span>}
+        </h2>
+        <span className="text-xs text-zinc-500">Block {position.blockNumber.toLocaleString()}</span>
+      </div>
+      {staked === 0n && pending === 0n ? (
+        <p className="text-zinc-500">Not staking yet.</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-zinc-400">Staked</p>
+            <p className="text-xl font-bold text-white">
+              {formatTokenAmount(staked, decimals, 0)} {symbol}
+            </p>
+            <p className="text-xs text-zinc-500">{poolShare.toFixed(2)}% of the pool</p>
+          </div>
+          <div>
+            <p className="text-zinc-400">Unclaimed rewards</p>
+            {position.rewards.length === 0 ? (
+              <p className="text-xl font-bold text-white">0</p>
+            ) : (
+              position.rewards.map((reward) => (
+                <p key={reward.token} className="text-white">
+                  {formatTokenAmount(BigInt(reward.amount), reward.decimals)} {reward.symbol}
+                </p>
+              ))
+            )}
+          </div>
+          {pending > 0n && (
+            <p className="col-span-2 text-xs text-amber-300">
+              {formatTokenAmount(pending, decimals, 0)} {symbol} waiting out the unstake cooldown
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
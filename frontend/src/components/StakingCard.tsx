@@ -1,9 +1,28 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useWalletClient } from 'wagmi';
-import { parseEther, formatEther, encodeFunctionData } from 'viem';
-import { CONTRACTS, STAKING_ABI, ERC20_ABI } from '@/config/contracts';
+import { useState } from 'react';
+import { useAccount } from 'wagmi';
+import { formatUnits } from 'viem';
+import { CONTRACTS, STAKING_ABI, ERC20_ABI, MIN_STAKE_DISPLAY } from '@/config/contracts';
+import { useStakingPosition } from '@/hooks/useStakingPosition';
+import { useTokenMetadata } from '@/hooks/useTokenMetadata';
+import { useStakingApr } from '@/hooks/useStakingApr';
+import { formatApr } from '@/lib/apr';
+import { useCooldownPeriod } from '@/hooks/useCooldownPeriod';
+import { useNow } from '@/hooks/useNow';
+import { useUnlockNotification } from '@/hooks/useUnlockNotification';
+import { useRewardWarmup } from '@/hooks/useRewardWarmup';
+import { useSimulatedWrite } from '@/hooks/useSimulatedWrite';
+import { useBatchedCalls } from '@/hooks/useBatchedCalls';
+import { usePermitStake } from '@/hooks/usePermitStake';
+import { UnlockReminder } from '@/components/UnlockReminder';
+import { RewardWarmup } from '@/components/RewardWarmup';
+import { AmountInput } from '@/components/AmountInput';
+import { useTrackedTransaction } from '@/components/TransactionProvider';
+import { formatDuration, formatTokenAmount } from '@/lib/format';
+import { prepareCall } from '@/lib/batch';
+import { parseAmount, validateStake, validateUnstake } from '@/lib/amount';
+import { previewUnstake } from '@/lib/unstake';
 
 export function StakingCard() {
   const { address, chainId } = useAccount();
@@ -12,236 +31,152 @@ export function StakingCard() {
   
   const contracts = chainId ? CONTRACTS[chainId as keyof typeof CONTRACTS] : null;
   
-  // Read staking data
-  const { data: stakedBalance, refetch: refetchStaked } = useReadContract({
-    address: contracts?.STAKING as `0x${string}`,
-    abi: STAKING_ABI,
-    functionName: 'stakedBalance',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!contracts?.STAKING },
-  });
-  
-  const { data: totalStaked } = useReadContract({
-    address: contracts?.STAKING as `0x${string}`,
-    abi: STAKING_ABI,
-    functionName: 'totalStaked',
-    query: { enabled: !!contracts?.STAKING },
-  });
-  
-  const { data: unstakeRequest } = useReadContract({
-    address: contracts?.STAKING as `0x${string}`,
-    abi: STAKING_ABI,
-    functionName: 'unstakeRequests',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!contracts?.STAKING },
-  });
+  const { getToken } = useTokenMetadata(contracts ? [contracts.EMBER] : []);
+  const ember = contracts ? getToken(contracts.EMBER) : null;
+  const emberDecimals = ember?.decimals ?? 18;
+  const emberSymbol = ember?.symbol ?? 'EMBER';
   
-  const { data: canWithdraw } = useReadContract({
-    address: contracts?.STAKING as `0x${string}`,
-    abi: STAKING_ABI,
-    functionName: 'canWithdraw',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!contracts?.STAKING },
-  });
+  // Position and pool totals, one multicall per block
+  const { position } = useStakingPosition(address, chainId);
+  const stakedBalance = position?.stakedBalance;
+  const totalStaked = position?.totalStaked;
+  const unstakeRequest = position?.unstakeRequest;
+  const canWithdraw = position?.canWithdraw;
+  const emberBalance = position?.walletBalance;
+  const allowance = position?.allowance;
+  const totalSupply = position?.totalSupply;
   
-  const { data: emberBalance } = useReadContract({
-    address: contracts?.EMBER as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!contracts?.EMBER },
-  });
+  // Parse and validate inputs up front so buttons can be disabled with a reason
+  const balances = {
+    decimals: emberDecimals,
+    symbol: emberSymbol,
+    walletBalance: emberBalance,
+    stakedBalance,
+    pendingUnstake: unstakeRequest?.amount,
+  };
+  const parsedStake = parseAmount(stakeAmount, emberDecimals);
+  const stakeWei = parsedStake.value ?? 0n;
+  const stakeInputError = parsedStake.error ?? validateStake(stakeWei, balances);
+  const parsedUnstake = parseAmount(unstakeAmount, emberDecimals);
+  const unstakeWei = parsedUnstake.value ?? 0n;
+  const unstakeInputError = parsedUnstake.error ?? validateUnstake(unstakeWei, balances);
   
-  const { data: allowance, refetch: refetchAllowance } = useReadContract({
-    address: contracts?.EMBER as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'allowance',
-    args: address && contracts?.STAKING ? [address, contracts.STAKING as `0x${string}`] : undefined,
-    query: { enabled: !!address && !!contracts?.STAKING && !!contracts?.EMBER },
-  });
+  const cooldownPeriod = useCooldownPeriod(chainId);
+  const warmup = useRewardWarmup(address, chainId);
+  const now = useNow();
   
-  // Get total supply for percentage calculation
-  const { data: totalSupply } = useReadContract({
-    address: contracts?.EMBER as `0x${string}`,
-    abi: ERC20_ABI,
-    functionName: 'totalSupply',
-    query: { enabled: !!contracts?.EMBER },
-  });
+  // Trailing yield (server-side, from RewardsDeposited history)
+  const { data: aprData } = useStakingApr(contracts ? chainId : undefined);
+  const aprWindow = (days: number) => aprData?.windows.find((w) => w.days === days);
   
-  // Write functions
-  const { writeContract: approve, data: approveHash, isPending: isApproving } = useWriteContract();
-  const { writeContract: stake, data: stakeHash, isPending: isStaking } = useWriteContract();
-  const { writeContract: requestUnstake, data: unstakeHash, isPending: isUnstaking } = useWriteContract();
-  const { writeContract: withdraw, data: withdrawHash, isPending: isWithdrawing } = useWriteContract();
-  const { writeContract: cancelUnstake, isPending: isCancelling } = useWriteContract();
+  // Write functions (simulated first, reverts are decoded before the wallet prompt)
+  const emberContext = { symbol: emberSymbol, decimals: emberDecimals };
+  const { write: approve, data: approveHash, isPending: isApproving, isSimulating: isCheckingApprove, error: approveError } = useSimulatedWrite(emberContext);
+  const { write: stake, data: stakeHash, isPending: isStaking, isSimulating: isCheckingStake, error: stakeError } = useSimulatedWrite(emberContext);
+  const { write: permitStake, data: permitStakeHash, isPending: isPermitStaking, isSimulating: isCheckingPermitStake, error: permitStakeError } = useSimulatedWrite(emberContext);
+  const { write: requestUnstake, data: unstakeHash, isPending: isUnstaking, isSimulating: isCheckingUnstake, error: unstakeError } = useSimulatedWrite(emberContext);
+  const { write: withdraw, data: withdrawHash, isPending: isWithdrawing, isSimulating: isCheckingWithdraw, error: withdrawError } = useSimulatedWrite(emberContext);
+  const { write: cancelUnstake, data: cancelHash, isPending: isCancelling, isSimulating: isCheckingCancel, error: cancelError } = useSimulatedWrite(emberContext);
   
-  // Wait for transactions
-  const { isLoading: isApproveLoading, isSuccess: isApproveSuccess } = useWaitForTransactionReceipt({ hash: approveHash });
-  const { isLoading: isStakeLoading, isSuccess: isStakeSuccess } = useWaitForTransactionReceipt({ hash: stakeHash });
+  // Wait for transactions (reads are invalidated by the TransactionProvider on confirmation)
+  const { isLoading: isApproveLoading } = useTrackedTransaction(approveHash);
+  const { isLoading: isStakeLoading } = useTrackedTransaction(stakeHash);
+  const { isLoading: isPermitStakeLoading } = useTrackedTransaction(permitStakeHash);
+  const { isLoading: isUnstakeLoading } = useTrackedTransaction(unstakeHash);
+  const { isLoading: isWithdrawLoading } = useTrackedTransaction(withdrawHash);
+  const { isLoading: isCancelLoading } = useTrackedTransaction(cancelHash);
+  const emberLabel = (amount: bigint) => `${formatTokenAmount(amount, emberDecimals, 2)} ${emberSymbol}`;
   
-  // Refetch on success
-  if (isApproveSuccess) refetchAllowance();
-  if (isStakeSuccess) refetchStaked();
+  // Multi-call flows: one EIP-5792 bundle on smart wallets, sequential txs otherwise
+  const stakeBatch = useBatchedCalls(emberContext);
+  const replaceBatch = useBatchedCalls(emberContext);
+  const { isLoading: isStakeBatchLoading } = useTrackedTransaction(stakeBatch.id);
+  const { isLoading: isReplaceLoading } = useTrackedTransaction(replaceBatch.id);
+  const supportsBatching = stakeBatch.supportsBatching;
   
-  const [error, setError] = useState<string | null>(null);
-  const [supportsBatching, setSupportsBatching] = useState(false);
-  const [isBatchStaking, setIsBatchStaking] = useState(false);
+  // EIP-2612: sign a permit and stake in one transaction, preferred over batching
+  const permit = usePermitStake();
   
-  // Get wallet client for EIP-7702 batching
-  const { data: walletClient } = useWalletClient();
-  
-  // Check for EIP-5792 batching support (smart wallets like Coinbase, Ambire)
-  useEffect(() => {
-    async function checkBatchingSupport() {
-      if (!walletClient || !chainId || !address) {
-        setSupportsBatching(false);
-        return;
-      }
-      
-      try {
-        console.log('[7702] Checking wallet capabilities...');
-        const capabilities = await walletClient.request({
-          method: 'wallet_getCapabilities' as any,
-          params: [address],
-        }) as Record<string, { atomicBatch?: { supported: boolean } }>;
-        
-        const chainCapabilities = capabilities?.[`0x${chainId.toString(16)}`] || capabilities?.[chainId.toString()];
-        const batchSupported = chainCapabilities?.atomicBatch?.supported === true;
-        
-        console.log('[7702] Capabilities:', capabilities);
-        console.log('[7702] Batching supported:', batchSupported);
-        
-        setSupportsBatching(batchSupported);
-      } catch (err) {
-        // wallet_getCapabilities not supported = EOA wallet
-        console.log('[7702] wallet_getCapabilities not supported (EOA wallet)');
-        setSupportsBatching(false);
-      }
-    }
+  const handlePermitStake = async () => {
+    if (!contracts?.STAKING || !stakeWei || stakeInputError) return;
+    
+    const signature = await permit.sign(stakeWei);
+    if (!signature) return;
     
-    checkBatchingSupport();
-  }, [walletClient, chainId, address]);
+    const hash = await permitStake({
+      address: contracts.STAKING as `0x${string}`,
+      abi: STAKING_ABI,
+      functionName: 'stakeWithPermit',
+      args: [stakeWei, signature.deadline, signature.v, signature.r, signature.s],
+    }, { label: `Stake ${emberLabel(stakeWei)}`, invalidates: [contracts.EMBER] });
+    if (hash) setStakeAmount('');
+  };
   
-  // EIP-7702 Batch Stake (approve + stake in one tx)
+  // Approve + stake in one bundle
   const handleBatchStake = async () => {
-    if (!contracts?.EMBER || !contracts?.STAKING || !stakeAmount || !walletClient || !chainId) return;
-    setError(null);
-    setIsBatchStaking(true);
+    if (!contracts?.EMBER || !contracts?.STAKING || !stakeWei || stakeInputError) return;
     
-    try {
-      const stakeAmountWei = parseEther(stakeAmount);
-      
-      // Encode approve calldata
-      const approveData = encodeFunctionData({
+    console.log('[5792] Sending batched approve + stake...');
+    const sent = await stakeBatch.send([
+      prepareCall({
+        address: contracts.EMBER as `0x${string}`,
         abi: ERC20_ABI,
         functionName: 'approve',
-        args: [contracts.STAKING as `0x${string}`, stakeAmountWei],
-      });
-      
-      // Encode stake calldata
-      const stakeData = encodeFunctionData({
+        args: [contracts.STAKING as `0x${string}`, stakeWei],
+      }),
+      prepareCall({
+        address: contracts.STAKING as `0x${string}`,
         abi: STAKING_ABI,
         functionName: 'stake',
-        args: [stakeAmountWei],
-      });
-      
-      console.log('[7702] Sending batched approve + stake...');
-      
-      // Use wallet_sendCalls for atomic batch
-      const result = await walletClient.request({
-        method: 'wallet_sendCalls' as any,
-        params: [{
-          version: '1.0',
-          chainId: `0x${chainId.toString(16)}`,
-          from: address,
-          calls: [
-            { to: contracts.EMBER, data: approveData },
-            { to: contracts.STAKING, data: stakeData },
-          ],
-        }],
-      });
-      
-      console.log('[7702] Batch tx result:', result);
-      setStakeAmount('');
-      refetchAllowance();
-      refetchStaked();
-    } catch (err: any) {
-      console.error('[7702] Batch stake error:', err);
-      if (err.message?.includes('rejected') || err.message?.includes('denied')) {
-        setError('Transaction rejected by user');
-      } else {
-        setError('Batch stake failed: ' + (err.shortMessage || err.message || 'Unknown error'));
-      }
-    } finally {
-      setIsBatchStaking(false);
-    }
+        args: [stakeWei],
+      }),
+    ], { label: `Approve & stake ${emberLabel(stakeWei)}` });
+    if (sent) setStakeAmount('');
   };
   
-  const handleApprove = () => {
-    if (!contracts?.EMBER || !contracts?.STAKING || !stakeAmount) return;
-    setError(null);
+  const pendingUnstakeAmount = unstakeRequest?.amount || 0n;
+  
+  const handleApprove = async () => {
+    if (!contracts?.EMBER || !contracts?.STAKING || !stakeWei || stakeInputError) return;
     
     console.log('[Approve] Starting approval for', stakeAmount, 'EMBER');
     
     // Approve exact amount (not infinite)
-    const approvalAmount = parseEther(stakeAmount);
-    
-    approve({
+    const hash = await approve({
       address: contracts.EMBER as `0x${string}`,
       abi: ERC20_ABI,
       functionName: 'approve',
-      args: [contracts.STAKING as `0x${string}`, approvalAmount],
-    }, {
-      onError: (err) => {
-        console.error('[Approve] Error:', err);
-        setError(err.message?.includes('rejected') ? 'Transaction rejected by user' : 'Approval failed. Please try again.');
-      },
-      onSuccess: (hash) => {
-        console.log('[Approve] Success, tx hash:', hash);
-      }
-    });
+      args: [contracts.STAKING as `0x${string}`, stakeWei],
+    }, { label: `Approve ${emberLabel(stakeWei)}` });
+    if (hash) console.log('[Approve] Success, tx hash:', hash);
   };
   
-  const handleStake = () => {
-    if (!contracts?.STAKING || !stakeAmount) return;
-    setError(null);
+  const handleStake = async () => {
+    if (!contracts?.STAKING || !stakeWei || stakeInputError) return;
     
     console.log('[Stake] Starting stake for', stakeAmount, 'EMBER');
     
-    stake({
+    const hash = await stake({
       address: contracts.STAKING as `0x${string}`,
       abi: STAKING_ABI,
       functionName: 'stake',
-      args: [parseEther(stakeAmount)],
-    }, {
-      onError: (err) => {
-        console.error('[Stake] Error:', err);
-        if (err.message?.includes('rejected')) {
-          setError('Transaction rejected by user');
-        } else if (err.message?.includes('insufficient')) {
-          setError('Insufficient EMBER balance');
-        } else if (err.message?.includes('allowance')) {
-          setError('Approval needed. Please approve first.');
-        } else {
-          setError('Staking failed: ' + ((err as any).shortMessage || err.message || 'Unknown error'));
-        }
-      },
-      onSuccess: (hash) => {
-        console.log('[Stake] Success, tx hash:', hash);
-        setStakeAmount('');
-      },
-    });
+      args: [stakeWei],
+    }, { label: `Stake ${emberLabel(stakeWei)}`, invalidates: [contracts.EMBER] });
+    if (hash) {
+      console.log('[Stake] Success, tx hash:', hash);
+      setStakeAmount('');
+    }
   };
   
-  const handleRequestUnstake = () => {
-    if (!contracts?.STAKING || !unstakeAmount) return;
-    requestUnstake({
+  const handleRequestUnstake = async () => {
+    if (!contracts?.STAKING || !unstakeWei || unstakeInputError) return;
+    const hash = await requestUnstake({
       address: contracts.STAKING as `0x${string}`,
       abi: STAKING_ABI,
       functionName: 'requestUnstake',
-      args: [parseEther(unstakeAmount)],
-    });
-    setUnstakeAmount('');
+      args: [unstakeWei],
+    }, { label: `Request unstake of ${emberLabel(unstakeWei)}` });
+    if (hash) setUnstakeAmount('');
   };
   
   const handleWithdraw = () => {
@@ -250,7 +185,7 @@ export function StakingCard() {
       address: contracts.STAKING as `0x${string}`,
       abi: STAKING_ABI,
       functionName: 'withdraw',
-    });
+    }, { label: `Withdraw ${emberLabel(pendingUnstakeAmount)}`, invalidates: [contracts.EMBER] });
   };
   
   const handleCancelUnstake = () => {
@@ -259,13 +194,59 @@ export function StakingCard() {
       address: contracts.STAKING as `0x${string}`,
       abi: STAKING_ABI,
       functionName: 'cancelUnstake',
-    });
+    }, { label: `Re-stake ${emberLabel(pendingUnstakeAmount)}` });
+  };
+  
+  // Cancel the pending request and request the entered amount instead, which
+  // restarts the full cooldown rather than averaging it with the pending one (M-3)
+  const replaceInputError = parsedUnstake.error ?? validateUnstake(unstakeWei, {
+    ...balances,
+    stakedBalance: stakedBalance !== undefined ? stakedBalance + pendingUnstakeAmount : undefined,
+    pendingUnstake: undefined,
+  });
+  
+  const handleReplaceUnstake = async () => {
+    if (!contracts?.STAKING || !unstakeWei || replaceInputError) return;
+    const sent = await replaceBatch.send([
+      prepareCall({
+        address: contracts.STAKING as `0x${string}`,
+        abi: STAKING_ABI,
+        functionName: 'cancelUnstake',
+      }),
+      prepareCall({
+        address: contracts.STAKING as `0x${string}`,
+        abi: STAKING_ABI,
+        functionName: 'requestUnstake',
+        args: [unstakeWei],
+      }),
+    ], { label: `Replace unstake request with ${emberLabel(unstakeWei)}` });
+    if (sent) setUnstakeAmount('');
   };
   
-  const needsApproval = allowance !== undefined && stakeAmount && parseEther(stakeAmount) > allowance;
-  const pendingUnstakeAmount = unstakeRequest?.[0] || 0n;
-  const unlockTime = unstakeRequest?.[1] || 0n;
-  const unlockDate = unlockTime ? new Date(Number(unlockTime) * 1000) : null;
+  const needsApproval = allowance !== undefined && stakeWei > allowance;
+  const canSubmitStake = stakeWei > 0n && !stakeInputError;
+  const unlockTime = unstakeRequest?.unlockTime || 0n;
+  // canWithdraw only refreshes on refetch; also unlock as soon as the countdown ends
+  const isUnlocked = !!canWithdraw || (unlockTime > 0n && now >= Number(unlockTime));
+  const pendingUnstakeLabel = `${formatTokenAmount(pendingUnstakeAmount, emberDecimals)} ${emberSymbol}`;
+  const unlockNotification = useUnlockNotification({
+    unlockTime,
+    unlocked: isUnlocked,
+    amountLabel: pendingUnstakeLabel,
+    account: address,
+    chainId,
+  });
+  // Where "Request Unstake" would put the unlock time, using the contract's M-3 averaging
+  const unstakePreview =
+    unstakeWei > 0n && !unstakeInputError && cooldownPeriod !== undefined
+      ? previewUnstake({
+          pendingAmount: pendingUnstakeAmount,
+          pendingUnlockTime: unlockTime,
+          amount: unstakeWei,
+          cooldownPeriod,
+          now: BigInt(now),
+        })
+      : null;
   
   if (!contracts) {
     return (
@@ -287,7 +268,7 @@ export function StakingCard() {
             <p className="text-zinc-500 text-xs">EMBER staked</p>
           </div>
           <p className="text-xl font-bold text-white">
-            {stakedBalance ? Number(formatEther(stakedBalance)).toLocaleString(undefined, { maximumFractionDigits: 0 }) : '0'}
+            {stakedBalance ? formatTokenAmount(stakedBalance, emberDecimals, 0) : '0'}
           </p>
         </div>
         <div className="bg-zinc-800 rounded-xl p-4 flex justify-between items-center">
@@ -296,7 +277,7 @@ export function StakingCard() {
             <p className="text-zinc-500 text-xs">EMBER from all stakers</p>
           </div>
           <p className="text-xl font-bold text-white">
-            {totalStaked ? Number(formatEther(totalStaked)).toLocaleString(undefined, { maximumFractionDigits: 0 }) : '0'}
+            {totalStaked ? formatTokenAmount(totalStaked, emberDecimals, 0) : '0'}
           </p>
         </div>
         <div className="bg-gradient-to-r from-orange-900/50 to-zinc-800 rounded-xl p-4 flex justify-between items-center border border-orange-500/30">
@@ -310,6 +291,22 @@ export function StakingCard() {
               : '0.00'}%
           </p>
         </div>
+        <div className="bg-zinc-800 rounded-xl p-4 flex justify-between items-center">
+          <div>
+            <p className="text-zinc-400 text-sm">Trailing APR (30d)</p>
+            <p className="text-zinc-500 text-xs">
+              7d {formatApr(aprWindow(7)?.totalApr ?? null)} · 90d {formatApr(aprWindow(90)?.totalApr ?? null)}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-xl font-bold text-orange-400">{formatApr(aprWindow(30)?.totalApr ?? null)}</p>
+            {aprWindow(30)?.tokens.filter((t) => t.apr !== null && t.apr > 0).map((t) => (
+              <p key={t.token} className="text-zinc-500 text-xs">
+                {t.symbol} {formatApr(t.apr)}
+              </p>
+            ))}
+          </div>
+        </div>
         <div className="bg-zinc-800 rounded-xl p-4 flex justify-between items-center">
           <div>
             <p className="text-zinc-400 text-sm">Supply Staked</p>
@@ -323,149 +320,193 @@ export function StakingCard() {
         </div>
       </div>
       
+      {warmup.isWarmingUp && (
+        <div className="-mt-3 mb-6">
+          <RewardWarmup remaining={warmup.remaining} minStakeDuration={warmup.minStakeDuration} />
+        </div>
+      )}
+      
       {/* Wallet Balance */}
       <div className="mb-6">
         <p className="text-zinc-400 text-sm mb-2">
-          Wallet Balance: {emberBalance ? Number(formatEther(emberBalance)).toLocaleString(undefined, { maximumFractionDigits: 2 }) : '0'} EMBER
+          Wallet Balance: {emberBalance ? formatTokenAmount(emberBalance, emberDecimals, 2) : '0'} {emberSymbol}
         </p>
       </div>
       
       {/* Stake Section */}
       <div className="mb-6">
-        <div className="flex justify-between items-center mb-2">
-          <label className="text-zinc-400 text-sm">Stake Amount</label>
-          <span className="text-zinc-500 text-xs">Min: 1,000,000 EMBER</span>
-        </div>
-        <div className="flex gap-2">
-          <input
-            type="number"
-            value={stakeAmount}
-            onChange={(e) => setStakeAmount(e.target.value)}
-            placeholder="0.0"
-            className="flex-1 bg-zinc-800 border border-zinc-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-orange-500"
-          />
-          <button
-            onClick={() => setStakeAmount('1000000')}
-            className="px-3 py-2 bg-zinc-800 text-zinc-400 rounded-xl hover:bg-zinc-700 text-sm"
-          >
-            MIN
-          </button>
-          <button
-            onClick={() => setStakeAmount(emberBalance ? formatEther(emberBalance) : '0')}
-            className="px-3 py-2 bg-zinc-800 text-zinc-400 rounded-xl hover:bg-zinc-700 text-sm"
-          >
-            MAX
-          </button>
-        </div>
+        <AmountInput
+          label="Stake Amount"
+          hint={`Min: ${MIN_STAKE_DISPLAY} EMBER`}
+          value={stakeAmount}
+          onChange={setStakeAmount}
+          error={stakeInputError}
+          presets={[
+            { label: 'MIN', value: '1000000' },
+            { label: 'MAX', value: emberBalance ? formatUnits(emberBalance, emberDecimals) : '0' },
+          ]}
+        />
         
         {/* Error display */}
-        {error && (
+        {(permit.error || permitStakeError || stakeBatch.error || approveError || stakeError) && (
           <div className="mt-3 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">
-            ⚠️ {error}
+            ⚠️ {permit.error || permitStakeError || stakeBatch.error || approveError || stakeError}
           </div>
         )}
         
         {/* Wallet prompt */}
-        {(isApproving || isStaking || isBatchStaking) && (
+        {(permit.isSigning || isPermitStaking || isApproving || isStaking || stakeBatch.isPending) && (
           <div className="mt-3 p-3 bg-blue-900/50 border border-blue-500/50 rounded-xl text-blue-300 text-sm animate-pulse">
             👛 Please confirm in your wallet...
           </div>
         )}
         
         {/* Smart wallet batching indicator */}
-        {supportsBatching && needsApproval && (
+        {!permit.supported && supportsBatching && needsApproval && (
           <div className="mt-3 p-2 bg-green-900/30 border border-green-500/30 rounded-xl text-green-300 text-xs">
             ✨ Smart wallet detected - approve & stake in one transaction!
           </div>
         )}
         
-        {/* Stake buttons */}
-        {supportsBatching && needsApproval ? (
+        {/* Stake buttons: permit, then batch, then two-step */}
+        {permit.supported && needsApproval ? (
+          // EIP-2612: signature instead of an approve transaction
+          <button
+            onClick={handlePermitStake}
+            disabled={permit.isSigning || isCheckingPermitStake || isPermitStaking || isPermitStakeLoading || !canSubmitStake}
+            className="w-full mt-3 bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-400 hover:to-amber-400 disabled:from-zinc-700 disabled:to-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
+          >
+            {permit.isSigning ? '✍️ Sign in Wallet...' : isCheckingPermitStake ? 'Checking...' : isPermitStaking ? '👛 Check Wallet...' : isPermitStakeLoading ? 'Confirming...' : '✍️ Sign & Stake (1 tx)'}
+          </button>
+        ) : supportsBatching && needsApproval ? (
           // Smart wallet: single batch button
           <button
             onClick={handleBatchStake}
-            disabled={isBatchStaking || !stakeAmount}
+            disabled={stakeBatch.isPending || isStakeBatchLoading || !canSubmitStake}
             className="w-full mt-3 bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-400 hover:to-amber-400 disabled:from-zinc-700 disabled:to-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
           >
-            {isBatchStaking ? '👛 Check Wallet...' : '⚡ Approve & Stake (1 tx)'}
+            {stakeBatch.isPending ? '👛 Check Wallet...' : isStakeBatchLoading ? 'Confirming...' : '⚡ Approve & Stake (1 tx)'}
           </button>
         ) : needsApproval ? (
           // EOA wallet: two-step approval
           <button
             onClick={handleApprove}
-            disabled={isApproving || isApproveLoading || !stakeAmount}
+            disabled={isCheckingApprove || isApproving || isApproveLoading || !canSubmitStake}
             className="w-full mt-3 bg-orange-500 hover:bg-orange-600 disabled:bg-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
           >
-            {isApproving ? '👛 Check Wallet...' : isApproveLoading ? 'Confirming...' : 'Step 1: Approve EMBER'}
+            {isCheckingApprove ? 'Checking...' : isApproving ? '👛 Check Wallet...' : isApproveLoading ? 'Confirming...' : 'Step 1: Approve EMBER'}
           </button>
         ) : (
           // Already approved: stake button
           <button
             onClick={handleStake}
-            disabled={isStaking || isStakeLoading || !stakeAmount}
+            disabled={isCheckingStake || isStaking || isStakeLoading || !canSubmitStake}
             className="w-full mt-3 bg-orange-500 hover:bg-orange-600 disabled:bg-zinc-700 text-white font-bold py-3 rounded-xl transition-colors"
           >
-            {isStaking ? '👛 Check Wallet...' : isStakeLoading ? 'Confirming...' : 'Stake'}
+            {isCheckingStake ? 'Checking...' : isStaking ? '👛 Check Wallet...' : isStakeLoading ? 'Confirming...' : 'Stake'}
           </button>
         )}
       </div>
       
       {/* Unstake Section */}
       <div className="mb-6 pt-6 border-t border-zinc-800">
-        <label className="text-zinc-400 text-sm mb-2 block">Unstake Amount (3-day cooldown)</label>
-        <div className="flex gap-2">
-          <input
-            type="number"
-            value={unstakeAmount}
-            onChange={(e) => setUnstakeAmount(e.target.value)}
-            placeholder="0.0"
-            className="flex-1 bg-zinc-800 border border-zinc-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:border-orange-500"
-          />
-          <button
-            onClick={() => setUnstakeAmount(stakedBalance ? formatEther(stakedBalance) : '0')}
-            className="px-4 py-2 bg-zinc-800 text-zinc-400 rounded-xl hover:bg-zinc-700"
-          >
-            MAX
-          </button>
-        </div>
+        <AmountInput
+          label={<>Unstake Amount{cooldownPeriod !== undefined && ` (${formatDuration(cooldownPeriod)} cooldown)`}</>}
+          value={unstakeAmount}
+          onChange={setUnstakeAmount}
+          error={unstakeInputError}
+          presets={[{ label: 'MAX', value: stakedBalance ? formatUnits(stakedBalance, emberDecimals) : '0' }]}
+        />
+        {unstakePreview && (
+          <p className={`text-xs mt-2 ${unstakePreview.addedDelay > 0n ? 'text-amber-300' : 'text-zinc-500'}`}>
+            {unstakePreview.previousUnlockTime === null ? (
+              <>🔓 Unlocks ~{new Date(Number(unstakePreview.unlockTime) * 1000).toLocaleString()}</>
+            ) : (
+              <>
+                ⏳ All {emberLabel(pendingUnstakeAmount + unstakeWei)} would unlock ~
+                {new Date(Number(unstakePreview.unlockTime) * 1000).toLocaleString()}
+                {unstakePreview.addedDelay > 0n &&
+                  `, ${formatDuration(unstakePreview.addedDelay)} later than your pending ${emberLabel(pendingUnstakeAmount)}`}
+              </>
+            )}
+          </p>
+        )}
         <button
           onClick={handleRequestUnstake}
-          disabled={isUnstaking || !unstakeAmount}
+          disabled={isCheckingUnstake || isUnstaking || isUnstakeLoading || unstakeWei === 0n || !!unstakeInputError}
           className="w-full mt-3 bg-zinc-700 hover:bg-zinc-600 disabled:bg-zinc-800 text-white font-bold py-3 rounded-xl transition-colors"
         >
-          {isUnstaking ? 'Requesting...' : 'Request Unstake'}
+          {isCheckingUnstake ? 'Checking...' : isUnstaking ? '👛 Check Wallet...' : isUnstakeLoading ? 'Confirming...' : 'Request Unstake'}
         </button>
+        {pendingUnstakeAmount > 0n && unstakeWei > 0n && (
+          <>
+            <button
+              onClick={handleReplaceUnstake}
+              disabled={replaceBatch.isPending || isReplaceLoading || !!replaceInputError}
+              className="w-full mt-2 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-500 text-zinc-300 font-medium py-2 rounded-xl border border-zinc-700 transition-colors"
+            >
+              {replaceBatch.isPending
+                ? replaceBatch.step
+                  ? `👛 Step ${replaceBatch.step.index + 1} of ${replaceBatch.step.total}...`
+                  : '👛 Check Wallet...'
+                : isReplaceLoading
+                  ? 'Confirming...'
+                  : `↩️ Replace pending request instead (${replaceBatch.supportsBatching ? '1 tx' : '2 txs'})`}
+            </button>
+            <p className="text-zinc-500 text-xs mt-1">
+              Requesting more averages the unlock time with your pending {emberLabel(pendingUnstakeAmount)}. Replacing
+              re-stakes the pending amount and starts a full cooldown for this amount only.
+              {replaceInputError && !unstakeInputError && ` ${replaceInputError}`}
+            </p>
+          </>
+        )}
+        {(unstakeError || replaceBatch.error) && (
+          <div className="mt-3 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">
+            ⚠️ {unstakeError || replaceBatch.error}
+          </div>
+        )}
       </div>
       
       {/* Pending Unstake */}
       {pendingUnstakeAmount > 0n && (
         <div className="mb-6 p-4 bg-zinc-800 rounded-xl">
           <p className="text-zinc-400 text-sm">Pending Unstake</p>
-          <p className="text-xl font-bold text-white">
-            {formatEther(pendingUnstakeAmount)} EMBER
-          </p>
-          <p className="text-zinc-500 text-sm mt-1">
-            {canWithdraw 
-              ? '✅ Ready to withdraw!' 
-              : `Unlocks: ${unlockDate?.toLocaleString()}`
-            }
-          </p>
+          <p className="text-xl font-bold text-white">{pendingUnstakeLabel}</p>
+          {isUnlocked ? (
+            <p className="text-zinc-500 text-sm mt-1">✅ Ready to withdraw!</p>
+          ) : (
+            address && chainId && (
+              <UnlockReminder
+                unlockTime={unlockTime}
+                amountLabel={pendingUnstakeLabel}
+                account={address}
+                chainId={chainId}
+                notifyArmed={unlockNotification.armed}
+                onNotify={unlockNotification.arm}
+              />
+            )
+          )}
           <div className="flex gap-2 mt-3">
             <button
               onClick={handleWithdraw}
-              disabled={!canWithdraw || isWithdrawing}
+              disabled={!isUnlocked || isCheckingWithdraw || isWithdrawing || isWithdrawLoading}
               className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-zinc-700 text-white font-bold py-2 rounded-xl transition-colors"
             >
-              {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+              {isCheckingWithdraw ? 'Checking...' : isWithdrawing || isWithdrawLoading ? 'Withdrawing...' : 'Withdraw'}
             </button>
             <button
               onClick={handleCancelUnstake}
-              disabled={isCancelling}
+              disabled={isCheckingCancel || isCancelling || isCancelLoading}
               className="flex-1 bg-zinc-700 hover:bg-zinc-600 disabled:bg-zinc-800 text-white font-bold py-2 rounded-xl transition-colors"
             >
-              {isCancelling ? 'Cancelling...' : 'Cancel & Re-stake'}
+              {isCheckingCancel ? 'Checking...' : isCancelling || isCancelLoading ? 'Cancelling...' : 'Cancel & Re-stake'}
             </button>
           </div>
+          {(withdrawError || cancelError) && (
+            <div className="mt-3 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">
+              ⚠️ {withdrawError || cancelError}
+            </div>
+          )}
         </div>
       )}
     </div>
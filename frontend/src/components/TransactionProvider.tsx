@@ -0,0 +1,217 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { useQueryClient, type Query, type QueryClient } from '@tanstack/react-query';
+import type { Log } from 'viem';
+import { useConfig } from 'wagmi';
+import { getConnectorClient, waitForTransactionReceipt } from 'wagmi/actions';
+import { waitForCalls } from '@/lib/batch';
+import { describeContractError } from '@/lib/errors';
+
+// Central store for every transaction the app sends. Components hand over the
+// hash (or EIP-5792 bundle id) and the contracts it touches; the provider waits
+// for it to land, invalidates the wagmi reads of those contracts and drives
+// the toasts. Pending transactions survive a reload via localStorage.
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface TrackedTransaction {
+  // Transaction hash, or the wallet's bundle id for wallet_sendCalls batches
+  id: string;
+  kind: 'transaction' | 'calls';
+  // Known up front for transactions, once the bundle lands for calls
+  hash?: `0x${string}`;
+  chainId: number;
+  // Short description for toasts, e.g. "Stake 1,000,000 EMBER"
+  label: string;
+  // Contracts whose reads go stale once this lands
+  contracts: `0x${string}`[];
+  status: TransactionStatus;
+  // Unix ms
+  submittedAt: number;
+  error?: string;
+  // Toast dismissed; the transaction is still tracked until it settles
+  hidden?: boolean;
+}
+
+type TrackBase = Pick<TrackedTransaction, 'chainId' | 'label' | 'contracts'>;
+
+interface TransactionContextValue {
+  transactions: TrackedTransaction[];
+  track: (options: TrackBase & { hash: `0x${string}` }) => void;
+  trackCalls: (options: TrackBase & { id: string }) => void;
+  dismiss: (id: string) => void;
+  // Logs of every receipt once settled. Kept in memory only, so undefined after a reload
+  getLogs: (id: string) => Log[] | undefined;
+}
+
+const STORAGE_KEY = 'ember:transactions';
+// Settled transactions kept around for toasts and useTrackedTransaction
+const MAX_SETTLED = 10;
+
+const TransactionContext = createContext<TransactionContextValue | null>(null);
+
+function loadPending(): TrackedTransaction[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as TrackedTransaction[];
+    return stored.filter((tx) => tx.status === 'pending' && tx.id);
+  } catch {
+    return [];
+  }
+}
+
+// Addresses read by a wagmi useReadContract / useReadContracts query
+function queryAddresses(query: Query): { chainId?: number; addresses: string[] } {
+  const [kind, params] = query.queryKey as [unknown, Record<string, unknown> | undefined];
+  const chainId = params?.chainId as number | undefined;
+  if (kind === 'readContract') return { chainId, addresses: [String(params?.address).toLowerCase()] };
+  if (kind === 'readContracts') {
+    const contracts = (params?.contracts ?? []) as { address?: string; chainId?: number }[];
+    return {
+      chainId: chainId ?? contracts[0]?.chainId,
+      addresses: contracts.map((c) => String(c.address).toLowerCase()),
+    };
+  }
+  return { addresses: [] };
+}
+
+// Invalidates every wagmi read of the given contracts on a chain. Also used by
+// the live event subscriptions, for changes made by other accounts.
+export function invalidateContractReads(queryClient: QueryClient, chainId: number, contracts: readonly `0x${string}`[]) {
+  const touched = new Set(contracts.map((address) => address.toLowerCase()));
+  return queryClient.invalidateQueries({
+    predicate: (query) => {
+      const { chainId: queryChainId, addresses } = queryAddresses(query);
+      return (queryChainId === undefined || queryChainId === chainId) && addresses.some((address) => touched.has(address));
+    },
+  });
+}
+
+interface Settled {
+  success: boolean;
+  hash?: `0x${string}`;
+  logs: Log[];
+}
+
+export function TransactionProvider({ children }: { children: ReactNode }) {
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const logs = useRef(new Map<string, Log[]>());
+  const watching = useRef(new Set<string>());
+  const loaded = useRef(false);
+
+  // Restore pending transactions after mount (localStorage isn't available during SSR)
+  useEffect(() => {
+    setTransactions((current) => [...loadPending().filter((tx) => !current.some((c) => c.id === tx.id)), ...current]);
+    loaded.current = true;
+  }, []);
+
+  useEffect(() => {
+    if (!loaded.current) return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions.filter((tx) => tx.status === 'pending')));
+  }, [transactions]);
+
+  const update = useCallback((id: string, changes: Partial<TrackedTransaction>) => {
+    setTransactions((current) => {
+      const next = current.map((tx) => (tx.id === id ? { ...tx, ...changes } : tx));
+      const settled = next.filter((tx) => tx.status !== 'pending');
+      // Drop the oldest settled transactions beyond MAX_SETTLED
+      const stale = new Set(settled.slice(0, Math.max(0, settled.length - MAX_SETTLED)).map((tx) => tx.id));
+      return next.filter((tx) => !stale.has(tx.id));
+    });
+  }, []);
+
+  const invalidate = useCallback(
+    (tx: TrackedTransaction) => {
+      invalidateContractReads(queryClient, tx.chainId, tx.contracts);
+    },
+    [queryClient]
+  );
+
+  const settle = useCallback(
+    async (tx: TrackedTransaction): Promise<Settled> => {
+      const chainId = tx.chainId as (typeof config)['chains'][number]['id'];
+      if (tx.kind === 'calls') {
+        const result = await waitForCalls(() => getConnectorClient(config, { chainId }), tx.id);
+        return {
+          success: result.status === 'success',
+          hash: result.receipts[result.receipts.length - 1]?.transactionHash,
+          logs: result.receipts.flatMap((receipt) => receipt.logs),
+        };
+      }
+      const receipt = await waitForTransactionReceipt(config, { hash: tx.id as `0x${string}`, chainId });
+      return { success: receipt.status === 'success', hash: receipt.transactionHash, logs: receipt.logs };
+    },
+    [config]
+  );
+
+  // Wait for every pending transaction exactly once
+  useEffect(() => {
+    for (const tx of transactions) {
+      if (tx.status !== 'pending' || watching.current.has(tx.id)) continue;
+      watching.current.add(tx.id);
+
+      settle(tx)
+        .then(({ success, hash, logs: txLogs }) => {
+          logs.current.set(tx.id, txLogs);
+          if (success) {
+            update(tx.id, { status: 'confirmed', hash: hash ?? tx.hash, hidden: false });
+          } else {
+            update(tx.id, { status: 'failed', hash: hash ?? tx.hash, error: 'Transaction reverted on-chain.', hidden: false });
+          }
+          invalidate(tx);
+        })
+        .catch((err) => {
+          console.error('[Tx] Receipt error:', err);
+          update(tx.id, { status: 'failed', error: describeContractError(err), hidden: false });
+        })
+        .finally(() => watching.current.delete(tx.id));
+    }
+  }, [transactions, settle, update, invalidate]);
+
+  const add = useCallback((tx: Omit<TrackedTransaction, 'status' | 'submittedAt'>) => {
+    setTransactions((current) =>
+      current.some((c) => c.id === tx.id) ? current : [...current, { ...tx, status: 'pending', submittedAt: Date.now() }]
+    );
+  }, []);
+
+  const track = useCallback(
+    ({ hash, ...options }: TrackBase & { hash: `0x${string}` }) => add({ ...options, id: hash, kind: 'transaction', hash }),
+    [add]
+  );
+
+  const trackCalls = useCallback(
+    ({ id, ...options }: TrackBase & { id: string }) => add({ ...options, id, kind: 'calls' }),
+    [add]
+  );
+
+  const dismiss = useCallback((id: string) => update(id, { hidden: true }), [update]);
+
+  const getLogs = useCallback((id: string) => logs.current.get(id), []);
+
+  return (
+    <TransactionContext.Provider value={{ transactions, track, trackCalls, dismiss, getLogs }}>
+      {children}
+    </TransactionContext.Provider>
+  );
+}
+
+export function useTransactions(): TransactionContextValue {
+  const context = useContext(TransactionContext);
+  if (!context) throw new Error('useTransactions must be used within a TransactionProvider');
+  return context;
+}
+
+// Status of one tracked transaction or bundle, in the shape of useWaitForTransactionReceipt
+export function useTrackedTransaction(id: string | undefined) {
+  const { transactions, getLogs } = useTransactions();
+  const transaction = id ? transactions.find((tx) => tx.id === id) : undefined;
+  return {
+    transaction,
+    logs: id && transaction && transaction.status !== 'pending' ? getLogs(id) : undefined,
+    isLoading: transaction?.status === 'pending',
+    isSuccess: transaction?.status === 'confirmed',
+    isError: transaction?.status === 'failed',
+  };
+}
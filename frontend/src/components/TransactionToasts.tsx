@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useConfig } from 'wagmi';
+import { useTransactions, type TrackedTransaction } from '@/components/TransactionProvider';
+
+// Settled toasts hide themselves after this long
+const AUTO_DISMISS_MS = 8_000;
+
+const STATUS_STYLES: Record<TrackedTransaction['status'], { icon: string; text: string; border: string }> = {
+  pending: { icon: '⏳', text: 'Confirming...', border: 'border-blue-500/50' },
+  confirmed: { icon: '✅', text: 'Confirmed', border: 'border-green-500/50' },
+  failed: { icon: '⚠️', text: 'Failed', border: 'border-red-500/50' },
+};
+
+interface ToastProps {
+  tx: TrackedTransaction;
+  explorer?: { name: string; url: string };
+  onDismiss: (id: string) => void;
+}
+
+function Toast({ tx, explorer, onDismiss }: ToastProps) {
+  const style = STATUS_STYLES[tx.status];
+
+  useEffect(() => {
+    if (tx.status === 'pending') return;
+    const timer = setTimeout(() => onDismiss(tx.id), AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [tx.status, tx.id, onDismiss]);
+
+  return (
+    <div className={`bg-zinc-900 border ${style.border} rounded-xl p-4 shadow-lg flex gap-3 items-start`}>
+      <span className={`text-lg ${tx.status === 'pending' ? 'animate-pulse' : ''}`}>{style.icon}</span>
+      <div className="flex-1 min-w-0">
+        <p className="text-white text-sm font-medium">{tx.label}</p>
+        <p className="text-zinc-400 text-xs">{tx.error ?? style.text}</p>
+        {explorer && tx.hash && (
+          <a
+            href={`${explorer.url}/tx/${tx.hash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-orange-400 hover:text-orange-300"
+          >
+            View on {explorer.name} ↗
+          </a>
+        )}
+      </div>
+      <button onClick={() => onDismiss(tx.id)} className="text-zinc-500 hover:text-zinc-300 text-sm" aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+}
+
+export function TransactionToasts() {
+  const config = useConfig();
+  const { transactions, dismiss } = useTransactions();
+  const visible = transactions.filter((tx) => !tx.hidden);
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)] space-y-2">
+      {visible.map((tx) => (
+        <Toast
+          key={tx.id}
+          tx={tx}
+          explorer={config.chains.find((chain) => chain.id === tx.chainId)?.blockExplorers?.default}
+          onDismiss={dismiss}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useNow } from '@/hooks/useNow';
+import { buildIcsEvent, downloadIcs } from '@/lib/calendar';
+import { formatCountdown } from '@/lib/format';
+
+// Ticking countdown to an unstake request's unlockTime, with a calendar export
+// and the "Notify me" button of useUnlockNotification
+export function UnlockReminder({
+  unlockTime,
+  amountLabel,
+  account,
+  chainId,
+  notifyArmed,
+  onNotify,
+}: {
+  unlockTime: bigint;
+  amountLabel: string;
+  account: string;
+  chainId: number;
+  notifyArmed: boolean;
+  onNotify: () => void;
+}) {
+  const now = useNow();
+  const unlock = Number(unlockTime);
+  const remaining = unlock - now;
+
+  const handleCalendar = () => {
+    const ics = buildIcsEvent({
+      uid: `ember-unlock-${chainId}-${account.toLowerCase()}-${unlock}@ember.engineer`,
+      start: new Date(unlock * 1000),
+      title: 'Withdraw staked EMBER',
+      description: `${amountLabel} finishes its unstake cooldown and can be withdrawn.`,
+      url: typeof window !== 'undefined' ? `${window.location.origin}/staking` : undefined,
+    });
+    downloadIcs('ember-withdrawal.ics', ics);
+  };
+
+  if (remaining <= 0) return null;
+
+  return (
+    <div className="mt-2">
+      <p className="text-2xl font-mono font-bold text-orange-400">{formatCountdown(remaining)}</p>
+      <p className="text-zinc-500 text-xs">until {new Date(unlock * 1000).toLocaleString()}</p>
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={handleCalendar}
+          className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 text-zinc-300 text-xs rounded-lg transition-colors"
+        >
+          📅 Add to calendar
+        </button>
+        <button
+          onClick={onNotify}
+          disabled={notifyArmed}
+          title="Shows a browser notification if the app is open when the cooldown ends"
+          className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 disabled:bg-zinc-800 disabled:text-zinc-500 text-zinc-300 text-xs rounded-lg transition-colors"
+        >
+          {notifyArmed ? '🔔 Reminder set' : '🔔 Notify me'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { useAccount, useReadContract, useReadContracts } from 'wagmi';
+import { base } from 'wagmi/chains';
+import { CONTRACTS, VESTER_ABI, type SupportedChainId } from '@/config/contracts';
+import { useSimulatedWrite } from '@/hooks/useSimulatedWrite';
+import { useTrackedTransaction } from '@/components/TransactionProvider';
+import { formatDuration, formatTokenAmount } from '@/lib/format';
+
+const formatEmber = (amount: bigint) => formatTokenAmount(amount, 18, 2);
+
+export function VesterDashboard() {
+  const { isConnected, chainId } = useAccount();
+
+  // Read from the connected chain when it's supported, otherwise Base Mainnet
+  const readChainId = (chainId && chainId in CONTRACTS ? chainId : base.id) as SupportedChainId;
+  const vester = CONTRACTS[readChainId].VESTER;
+  const canWrite = isConnected && chainId === readChainId && !!vester;
+
+  const { data: scheduleCount } = useReadContract({
+    address: vester,
+    abi: VESTER_ABI,
+    functionName: 'scheduleCount',
+    chainId: readChainId,
+    query: { enabled: !!vester },
+  });
+
+  const { data: totalReleasable } = useReadContract({
+    address: vester,
+    abi: VESTER_ABI,
+    functionName: 'totalReleasable',
+    chainId: readChainId,
+    query: { enabled: !!vester, refetchInterval: 10_000 },
+  });
+
+  const scheduleIds = Array.from({ length: Number(scheduleCount ?? 0n) }, (_, i) => BigInt(i));
+
+  // getSchedule + releasable for every schedule, batched into one multicall
+  const { data: scheduleData } = useReadContracts({
+    contracts: scheduleIds.flatMap((id) => [
+      { address: vester!, abi: VESTER_ABI, functionName: 'getSchedule', args: [id], chainId: readChainId } as const,
+      { address: vester!, abi: VESTER_ABI, functionName: 'releasable', args: [id], chainId: readChainId } as const,
+    ]),
+    query: { enabled: !!vester && scheduleIds.length > 0, refetchInterval: 10_000 },
+  });
+
+  const schedules = scheduleIds.map((id, i) => {
+    const schedule = scheduleData?.[i * 2]?.result as
+      | readonly [bigint, bigint, bigint, bigint, bigint, bigint, bigint, boolean]
+      | undefined;
+    const releasable = scheduleData?.[i * 2 + 1]?.result as bigint | undefined;
+    if (!schedule) return null;
+    const [totalAmount, released, startTime, duration, endTime, vestedAmount, , active] = schedule;
+    return { id, totalAmount, released, startTime, duration, endTime, vestedAmount, active, releasable: releasable ?? 0n };
+  });
+
+  // Write functions (simulated first, reverts are decoded before the wallet prompt)
+  const { write: release, data: releaseHash, isPending: isReleasing, isSimulating: isCheckingRelease, error: releaseError, variables: releaseVars } = useSimulatedWrite();
+  const { write: releaseAll, data: releaseAllHash, isPending: isReleasingAll, isSimulating: isCheckingReleaseAll, error: releaseAllError } = useSimulatedWrite();
+  // Schedule being simulated; `variables` is only set once the wallet prompts
+  const [checkingId, setCheckingId] = useState<bigint | null>(null);
+
+  // Wait for transactions (reads are invalidated by the TransactionProvider on confirmation)
+  const { isLoading: isReleaseLoading } = useTrackedTransaction(releaseHash);
+  const { isLoading: isReleaseAllLoading } = useTrackedTransaction(releaseAllHash);
+  // Released tokens are deposited as staker rewards
+  const staking = CONTRACTS[readChainId].STAKING;
+
+  const handleRelease = (scheduleId: bigint) => {
+    if (!vester) return;
+    setCheckingId(scheduleId);
+    release({
+      address: vester,
+      abi: VESTER_ABI,
+      functionName: 'release',
+      args: [scheduleId],
+    }, { label: `Release vesting schedule #${scheduleId}`, invalidates: [staking] });
+  };
+
+  const handleReleaseAll = () => {
+    if (!vester) return;
+    releaseAll({
+      address: vester,
+      abi: VESTER_ABI,
+      functionName: 'releaseAll',
+    }, { label: 'Release all vesting schedules', invalidates: [staking] });
+  };
+
+  const pendingReleaseId = isCheckingRelease ? checkingId : isReleasing || isReleaseLoading ? releaseVars?.args?.[0] : undefined;
+  // Release errors belong to the schedule that was last attempted
+  const failedReleaseId = releaseError ? checkingId : null;
+
+  if (!vester) {
+    return (
+      <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+        <p className="text-zinc-400">RewardVester is not deployed on this network. Switch to Base to view schedules.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <p className="text-zinc-400 text-sm">Releasable Now</p>
+            <p className="text-3xl font-bold text-orange-400">
+              {totalReleasable !== undefined ? formatEmber(totalReleasable) : '—'} EMBER
+            </p>
+            <p className="text-zinc-500 text-xs mt-1">
+              Across {scheduleIds.length} schedule{scheduleIds.length === 1 ? '' : 's'} · released tokens go to stakers
+            </p>
+          </div>
+          <button
+            onClick={handleReleaseAll}
+            disabled={!canWrite || !totalReleasable || isCheckingReleaseAll || isReleasingAll || isReleaseAllLoading}
+            className="px-6 py-3 bg-gradient-to-r from-orange-500 to-amber-500 hover:from-orange-600 hover:to-amber-600 disabled:from-zinc-700 disabled:to-zinc-700 text-white font-bold rounded-xl transition-colors"
+          >
+            {isCheckingReleaseAll ? 'Checking...' : isReleasingAll ? '👛 Check Wallet...' : isReleaseAllLoading ? 'Confirming...' : '🔓 Release All'}
+          </button>
+        </div>
+        {releaseAllError && (
+          <div className="mt-4 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">
+            ⚠️ {releaseAllError}
+          </div>
+        )}
+        {!canWrite && (
+          <p className="text-zinc-500 text-xs mt-4">
+            {isConnected ? 'Switch to Base to release tokens.' : 'Connect a wallet to release tokens. Anyone can trigger a release.'}
+          </p>
+        )}
+      </div>
+
+      {/* Schedules */}
+      {scheduleIds.length === 0 ? (
+        <div className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+          <p className="text-zinc-500">No vesting schedules yet.</p>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {schedules.map((schedule, i) => {
+            if (!schedule) {
+              return (
+                <div key={i} className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800 animate-pulse">
+                  <p className="text-zinc-500">Loading schedule #{i}...</p>
+                </div>
+              );
+            }
+
+            const releasedPct = schedule.totalAmount > 0n ? Number((schedule.released * 10000n) / schedule.totalAmount) / 100 : 0;
+            const vestedPct = schedule.totalAmount > 0n ? Number((schedule.vestedAmount * 10000n) / schedule.totalAmount) / 100 : 0;
+            const isPending = pendingReleaseId === schedule.id;
+
+            return (
+              <div key={i} className="bg-zinc-900 rounded-2xl p-6 border border-zinc-800">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-bold text-white">Schedule #{schedule.id.toString()}</h3>
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full ${
+                      schedule.active ? 'bg-green-500/20 text-green-400' : 'bg-zinc-700 text-zinc-400'
+                    }`}
+                  >
+                    {schedule.active ? 'Active' : 'Cancelled'}
+                  </span>
+                </div>
+
+                {/* Progress: released (solid) within vested (faded) */}
+                <div className="relative h-3 bg-zinc-800 rounded-full overflow-hidden mb-2">
+                  <div className="absolute inset-y-0 left-0 bg-orange-500/30" style={{ width: `${vestedPct}%` }} />
+                  <div
+                    className="absolute inset-y-0 left-0 bg-gradient-to-r from-orange-600 to-orange-400"
+                    style={{ width: `${releasedPct}%` }}
+                  />
+                </div>
+                <p className="text-zinc-500 text-xs mb-4">
+                  {releasedPct.toFixed(2)}% released · {vestedPct.toFixed(2)}% vested
+                </p>
+
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-zinc-500">Total</span>
+                    <span className="text-white">{formatEmber(schedule.totalAmount)} EMBER</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-500">Released</span>
+                    <span className="text-white">{formatEmber(schedule.released)} EMBER</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-500">Releasable</span>
+                    <span className="text-orange-400 font-bold">{formatEmber(schedule.releasable)} EMBER</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-500">Start</span>
+                    <span className="text-white">{new Date(Number(schedule.startTime) * 1000).toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-500">Duration</span>
+                    <span className="text-white">{formatDuration(schedule.duration)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-500">Ends</span>
+                    <span className="text-white">{new Date(Number(schedule.endTime) * 1000).toLocaleString()}</span>
+                  </div>
+                </div>
+
+                <button
+                  onClick={() => handleRelease(schedule.id)}
+                  disabled={!canWrite || !schedule.active || schedule.releasable === 0n || isPending}
+                  className="w-full mt-4 bg-orange-500 hover:bg-orange-600 disabled:bg-zinc-700 text-white font-bold py-2 rounded-xl transition-colors"
+                >
+                  {isPending ? (isCheckingRelease ? 'Checking...' : isReleasing ? '👛 Check Wallet...' : 'Confirming...') : 'Release'}
+                </button>
+                {failedReleaseId === schedule.id && (
+                  <div className="mt-3 p-3 bg-red-900/50 border border-red-500/50 rounded-xl text-red-300 text-sm">
+                    ⚠️ {releaseError}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { createConfig, webSocket } from 'wagmi';
+import { base, baseSepolia } from 'wagmi/chains';
+
+const alchemyKey = process.env.NEXT_PUBLIC_ALCHEMY_API_KEY;
+
+// Alchemy also serves WebSockets, so contract events can be pushed instead of
+// polled. Only the event watchers (useLiveStakingEvents) use this config;
+// reads, gas estimation and transactions stay on the HTTP transports in
+// app/providers.tsx. Null without an Alchemy key, in which case the watchers
+// poll through the app's config.
+export const eventsConfig = alchemyKey
+  ? createConfig({
+      chains: [base, baseSepolia],
+      transports: {
+        [base.id]: webSocket(`wss://base-mainnet.g.alchemy.com/v2/${alchemyKey}`),
+        [baseSepolia.id]: webSocket(`wss://base-sepolia.g.alchemy.com/v2/${alchemyKey}`),
+      },
+      // No wallets and no persisted state, which would clash with the app's config
+      connectors: [],
+      multiInjectedProviderDiscovery: false,
+      storage: null,
+      ssr: true,
+    })
+  : null;
@@ -0,0 +1,106 @@
+'use client';
+
+import { useReadContracts } from 'wagmi';
+import { CONTRACTS, FEE_SPLITTER_ABI, STAKING_ABI, VESTER_ABI, type SupportedChainId } from '@/config/contracts';
+import type { SplitterAdminState, StakingAdminState, VesterAdminState } from '@/lib/admin';
+
+const REFETCH_INTERVAL = 15_000;
+
+// Owners, limits and current settings of the three contracts for the admin
+// console. Each part is undefined until every read it needs has resolved.
+export function useAdminState(chainId: SupportedChainId) {
+  const contracts = CONTRACTS[chainId];
+  const staking = { address: contracts.STAKING, abi: STAKING_ABI, chainId } as const;
+  const splitter = { address: contracts.FEE_SPLITTER, abi: FEE_SPLITTER_ABI, chainId } as const;
+  const vester = { address: contracts.VESTER!, abi: VESTER_ABI, chainId } as const;
+
+  const { data: stakingData } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...staking, functionName: 'owner' },
+      { ...staking, functionName: 'paused' },
+      { ...staking, functionName: 'cooldownPeriod' },
+      { ...staking, functionName: 'MAX_COOLDOWN' },
+      { ...staking, functionName: 'MAX_REWARD_TOKENS' },
+      { ...staking, functionName: 'stakingToken' },
+      { ...staking, functionName: 'rewardTokenCount' },
+    ],
+    query: { refetchInterval: REFETCH_INTERVAL },
+  });
+
+  const rewardTokenIds = Array.from({ length: Number(stakingData?.[6] ?? 0n) }, (_, i) => BigInt(i));
+  const { data: rewardTokens } = useReadContracts({
+    allowFailure: false,
+    contracts: rewardTokenIds.map((id) => ({ ...staking, functionName: 'rewardTokens', args: [id] }) as const),
+    query: { enabled: rewardTokenIds.length > 0 },
+  });
+  const { data: rewardTokenActive } = useReadContracts({
+    allowFailure: false,
+    contracts: (rewardTokens ?? []).map((token) => ({ ...staking, functionName: 'isRewardToken', args: [token] }) as const),
+    query: { enabled: !!rewardTokens?.length, refetchInterval: REFETCH_INTERVAL },
+  });
+
+  const { data: splitterData } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...splitter, functionName: 'owner' },
+      { ...splitter, functionName: 'stakerShareBps' },
+      { ...splitter, functionName: 'MAX_BPS' },
+      { ...splitter, functionName: 'MAX_FEE_BPS' },
+    ],
+    query: { refetchInterval: REFETCH_INTERVAL },
+  });
+
+  const { data: vesterData } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...vester, functionName: 'owner' },
+      { ...vester, functionName: 'rewardToken' },
+      { ...vester, functionName: 'MAX_SCHEDULES' },
+      { ...vester, functionName: 'scheduleCount' },
+    ],
+    query: { enabled: !!contracts.VESTER, refetchInterval: REFETCH_INTERVAL },
+  });
+
+  const scheduleIds = Array.from({ length: Number(vesterData?.[3] ?? 0n) }, (_, i) => BigInt(i));
+  const { data: scheduleData } = useReadContracts({
+    allowFailure: false,
+    contracts: scheduleIds.map((id) => ({ ...vester, functionName: 'getSchedule', args: [id] }) as const),
+    query: { enabled: !!contracts.VESTER && scheduleIds.length > 0, refetchInterval: REFETCH_INTERVAL },
+  });
+
+  const stakingState: StakingAdminState | undefined =
+    stakingData && (rewardTokenIds.length === 0 || (rewardTokens && rewardTokenActive))
+      ? {
+          owner: stakingData[0],
+          paused: stakingData[1],
+          cooldownPeriod: stakingData[2],
+          maxCooldown: stakingData[3],
+          maxRewardTokens: stakingData[4],
+          stakingToken: stakingData[5],
+          rewardTokens: (rewardTokens ?? []).map((address, i) => ({ address, active: rewardTokenActive![i] })),
+        }
+      : undefined;
+
+  const splitterState: SplitterAdminState | undefined = splitterData
+    ? { owner: splitterData[0], stakerShareBps: splitterData[1], maxBps: splitterData[2], maxFeeBps: splitterData[3] }
+    : undefined;
+
+  const vesterState: VesterAdminState | undefined =
+    vesterData && (scheduleIds.length === 0 || scheduleData)
+      ? {
+          owner: vesterData[0],
+          rewardToken: vesterData[1],
+          maxSchedules: vesterData[2],
+          schedules: (scheduleData ?? []).map(([totalAmount, released, , , , , releasable, active], i) => ({
+            id: scheduleIds[i],
+            totalAmount,
+            released,
+            releasable,
+            active,
+          })),
+        }
+      : undefined;
+
+  return { contracts, staking: stakingState, splitter: splitterState, vester: vesterState };
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useConfig, useWalletClient } from 'wagmi';
+import { simulateContract, waitForTransactionReceipt, writeContract, type SimulateContractParameters } from 'wagmi/actions';
+import { getBatchVersion, sendCalls, type CallsVersion, type PreparedCall } from '@/lib/batch';
+import { TOKEN_ERRORS_ABI, describeContractError, type ErrorContext } from '@/lib/errors';
+import { useTransactions } from '@/components/TransactionProvider';
+
+interface BatchTracking {
+  // Toast label for the whole flow, e.g. "Approve & stake 1,000,000 EMBER"
+  label: string;
+  // Other contracts whose reads change, besides the ones being called
+  invalidates?: `0x${string}`[];
+}
+
+// Sends several contract calls as one atomic EIP-5792 bundle when the wallet
+// supports it (smart wallets, EIP-7702 accounts), and otherwise falls back to
+// sending them one after another, waiting for each receipt and simulating
+// every step right before its wallet prompt.
+export function useBatchedCalls(context?: ErrorContext) {
+  const config = useConfig();
+  const { address, chainId } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const { track, trackCalls } = useTransactions();
+  const [version, setVersion] = useState<CallsVersion | null>(null);
+  // Bundle id, or the last transaction hash of a sequential run
+  const [id, setId] = useState<string>();
+  const [isPending, setIsPending] = useState(false);
+  // Progress through the sequential fallback
+  const [step, setStep] = useState<{ index: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Check for EIP-5792 batching support (smart wallets like Coinbase, Ambire)
+  useEffect(() => {
+    let cancelled = false;
+    async function checkBatchingSupport() {
+      if (!walletClient || !chainId || !address) {
+        setVersion(null);
+        return;
+      }
+      try {
+        const capabilities = await walletClient.request({
+          method: 'wallet_getCapabilities',
+          params: [address],
+        });
+        const batchVersion = getBatchVersion(capabilities, chainId);
+        console.log('[5792] Capabilities:', capabilities, 'batch version:', batchVersion);
+        if (!cancelled) setVersion(batchVersion);
+      } catch {
+        // wallet_getCapabilities not supported = EOA wallet
+        console.log('[5792] wallet_getCapabilities not supported (EOA wallet)');
+        if (!cancelled) setVersion(null);
+      }
+    }
+    checkBatchingSupport();
+    return () => {
+      cancelled = true;
+    };
+  }, [walletClient, chainId, address]);
+
+  const simulate = useCallback(
+    (call: PreparedCall) =>
+      simulateContract(config, {
+        ...call.contract,
+        abi: [...call.contract.abi, ...TOKEN_ERRORS_ABI],
+      } as SimulateContractParameters),
+    [config]
+  );
+
+  // Resolves true once every call has been sent (and, sequentially, confirmed)
+  const send = useCallback(
+    async (calls: PreparedCall[], tracking: BatchTracking): Promise<boolean> => {
+      if (!walletClient || !chainId || !address || calls.length === 0) return false;
+      setError(null);
+      setIsPending(true);
+      const contracts = Array.from(new Set([...calls.map((call) => call.to), ...(tracking.invalidates ?? [])]));
+
+      try {
+        if (version) {
+          // Only the first call can be checked up front, later ones depend on its effects
+          await simulate(calls[0]);
+          const bundleId = await sendCalls(walletClient, { version, chainId, from: address, calls });
+          console.log('[5792] Bundle sent:', bundleId);
+          trackCalls({ id: bundleId, chainId, label: tracking.label, contracts });
+          setId(bundleId);
+          return true;
+        }
+
+        for (const [index, call] of calls.entries()) {
+          setStep({ index, total: calls.length });
+          const { request } = await simulate(call);
+          const hash = await writeContract(config, request);
+          const label = calls.length > 1 ? `${tracking.label} (${index + 1}/${calls.length})` : tracking.label;
+          track({ hash, chainId, label, contracts });
+          setId(hash);
+          const receipt = await waitForTransactionReceipt(config, { hash, chainId });
+          if (receipt.status !== 'success') {
+            setError(`Step ${index + 1} of ${calls.length} reverted on-chain.`);
+            return false;
+          }
+        }
+        return true;
+      } catch (err) {
+        console.error('[5792] Batch error:', err);
+        setError(describeContractError(err, context));
+        return false;
+      } finally {
+        setIsPending(false);
+        setStep(null);
+      }
+    },
+    [walletClient, chainId, address, version, config, simulate, track, trackCalls, context]
+  );
+
+  return { supportsBatching: version !== null, send, id, isPending, step, error };
+}
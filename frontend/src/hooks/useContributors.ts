@@ -0,0 +1,21 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { ContributorsResponse } from '@/lib/contributors';
+
+async function fetchContributors(chainId: number): Promise<ContributorsResponse> {
+  const res = await fetch(`/api/contributors?chainId=${chainId}`);
+  if (!res.ok) throw new Error(`Contributors request failed (${res.status})`);
+  return res.json();
+}
+
+// FeeSplitter registry and lifetime fees from /api/contributors
+export function useContributors(chainId: number | undefined) {
+  return useQuery({
+    queryKey: ['contributors', chainId],
+    queryFn: () => fetchContributors(chainId!),
+    enabled: !!chainId,
+    staleTime: 60_000,
+    refetchInterval: 5 * 60_000,
+  });
+}
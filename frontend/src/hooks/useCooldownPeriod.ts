@@ -0,0 +1,22 @@
+'use client';
+
+import { useReadContract } from 'wagmi';
+import { base } from 'wagmi/chains';
+import { CONTRACTS, STAKING_ABI } from '@/config/contracts';
+
+// Live EmberStaking.cooldownPeriod() in seconds. The owner can change it (up to
+// MAX_COOLDOWN), so never assume the 3-day default. Reads from Base Mainnet when
+// the wallet is disconnected or on an unsupported chain.
+export function useCooldownPeriod(chainId?: number) {
+  const readChainId = (chainId && chainId in CONTRACTS ? chainId : base.id) as keyof typeof CONTRACTS;
+
+  const { data } = useReadContract({
+    address: CONTRACTS[readChainId].STAKING,
+    abi: STAKING_ABI,
+    functionName: 'cooldownPeriod',
+    chainId: readChainId,
+    query: { staleTime: 5 * 60_000 },
+  });
+
+  return data;
+}
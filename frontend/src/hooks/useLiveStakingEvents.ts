@@ -0,0 +1,108 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { parseEventLogs } from 'viem';
+import { useWatchContractEvent } from 'wagmi';
+import { CONTRACTS, FEE_SPLITTER_ABI, STAKING_ABI, type SupportedChainId } from '@/config/contracts';
+import { eventsConfig } from '@/config/events';
+import { invalidateContractReads } from '@/components/TransactionProvider';
+
+// Events kept for the ticker, newest first
+const MAX_EVENTS = 20;
+
+export type LiveEventType = 'stake' | 'withdraw' | 'rewards' | 'fee';
+
+export interface LiveEvent {
+  // `${transactionHash}-${logIndex}`
+  id: string;
+  type: LiveEventType;
+  // Staker for stake / withdraw, paying project for fee
+  account?: `0x${string}`;
+  // EMBER for stake / withdraw
+  token: `0x${string}`;
+  amount: bigint;
+  transactionHash: `0x${string}`;
+  // Unix seconds the log arrived; logs don't carry the block timestamp
+  seenAt: number;
+}
+
+// Subscribes to Staked, Withdrawn and RewardsDeposited on EmberStaking and
+// FeeReceived on the FeeSplitter, so pool totals and rewards update while the
+// page is open, not only when our own transactions land. Pushed over
+// eventsConfig's WebSocket when there is one, polled over HTTP otherwise.
+// Mount once per page; the events are kept for the live deposits ticker.
+export function useLiveStakingEvents(chainId: number | undefined) {
+  const contracts = chainId && chainId in CONTRACTS ? CONTRACTS[chainId as SupportedChainId] : null;
+  const queryClient = useQueryClient();
+  const [events, setEvents] = useState<LiveEvent[]>([]);
+
+  const add = useCallback((incoming: LiveEvent[]) => {
+    if (incoming.length === 0) return;
+    setEvents((current) => {
+      const seen = new Set(current.map((event) => event.id));
+      const fresh = incoming.filter((event) => !seen.has(event.id)).reverse();
+      return [...fresh, ...current].slice(0, MAX_EVENTS);
+    });
+  }, []);
+
+  useWatchContractEvent({
+    address: contracts?.STAKING,
+    abi: STAKING_ABI,
+    chainId,
+    config: eventsConfig ?? undefined,
+    enabled: !!contracts,
+    onLogs(logs) {
+      if (!contracts || !chainId) return;
+      const seenAt = Math.floor(Date.now() / 1000);
+      const incoming: LiveEvent[] = [];
+      const parsed = parseEventLogs({ abi: STAKING_ABI, eventName: ['Staked', 'Withdrawn', 'RewardsDeposited'], logs });
+      for (const log of parsed) {
+        if (log.removed) continue;
+        const base = { id: `${log.transactionHash}-${log.logIndex}`, transactionHash: log.transactionHash, seenAt };
+        if (log.eventName === 'Staked') {
+          incoming.push({ ...base, type: 'stake', account: log.args.user, token: contracts.EMBER, amount: log.args.amount });
+        } else if (log.eventName === 'Withdrawn') {
+          incoming.push({ ...base, type: 'withdraw', account: log.args.user, token: contracts.EMBER, amount: log.args.amount });
+        } else {
+          incoming.push({ ...base, type: 'rewards', token: log.args.token, amount: log.args.amount });
+        }
+      }
+      if (incoming.length === 0) return;
+      add(incoming);
+      // totalStaked and earnedAll (useStakingPosition) read EmberStaking
+      invalidateContractReads(queryClient, chainId, [contracts.STAKING]);
+    },
+  });
+
+  useWatchContractEvent({
+    address: contracts?.FEE_SPLITTER,
+    abi: FEE_SPLITTER_ABI,
+    eventName: 'FeeReceived',
+    strict: true,
+    chainId,
+    config: eventsConfig ?? undefined,
+    enabled: !!contracts,
+    onLogs(logs) {
+      if (!contracts || !chainId) return;
+      const seenAt = Math.floor(Date.now() / 1000);
+      add(
+        logs
+          .filter((log) => !log.removed)
+          .map((log) => ({
+            id: `${log.transactionHash}-${log.logIndex}`,
+            type: 'fee',
+            account: log.args.project,
+            token: log.args.token,
+            amount: log.args.totalAmount,
+            transactionHash: log.transactionHash,
+            seenAt,
+          }))
+      );
+      // Contributor claims; the staker share arrives as a RewardsDeposited above
+      invalidateContractReads(queryClient, chainId, [contracts.FEE_SPLITTER]);
+    },
+  });
+
+  return { events };
+}
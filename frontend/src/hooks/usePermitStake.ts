@@ -0,0 +1,109 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { parseSignature } from 'viem';
+import { useAccount, useBytecode, useConfig, useReadContracts } from 'wagmi';
+import { readContract, signTypedData } from 'wagmi/actions';
+import { CONTRACTS, ERC20_ABI, ERC20_PERMIT_ABI } from '@/config/contracts';
+import { PERMIT_DEADLINE_SECONDS, PERMIT_TYPES, canSignPermit, hasFunction, resolvePermitDomain } from '@/lib/permit';
+import { describeContractError, isUserRejection } from '@/lib/errors';
+
+export interface StakePermit {
+  deadline: bigint;
+  v: number;
+  r: `0x${string}`;
+  s: `0x${string}`;
+}
+
+const STAKE_WITH_PERMIT = 'stakeWithPermit(uint256,uint256,uint8,bytes32,bytes32)';
+
+// Single-transaction staking for tokens with EIP-2612. Supported when EMBER
+// exposes a permit domain, the deployed staking contract has stakeWithPermit
+// (older deployments don't) and the account signs with an EOA key; smart
+// contract wallets can't produce ecrecover signatures and batch instead.
+export function usePermitStake() {
+  const config = useConfig();
+  const { address, chainId } = useAccount();
+  const contracts = chainId ? CONTRACTS[chainId as keyof typeof CONTRACTS] : null;
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: tokenData } = useReadContracts({
+    allowFailure: true,
+    contracts: [
+      { address: contracts?.EMBER as `0x${string}`, abi: ERC20_PERMIT_ABI, functionName: 'DOMAIN_SEPARATOR', chainId },
+      { address: contracts?.EMBER as `0x${string}`, abi: ERC20_PERMIT_ABI, functionName: 'eip712Domain', chainId },
+      { address: contracts?.EMBER as `0x${string}`, abi: ERC20_ABI, functionName: 'name', chainId },
+      {
+        address: contracts?.EMBER as `0x${string}`,
+        abi: ERC20_PERMIT_ABI,
+        functionName: 'nonces',
+        args: address ? [address] : undefined,
+        chainId,
+      },
+    ],
+    query: { enabled: !!contracts?.EMBER && !!address, staleTime: Infinity },
+  });
+
+  const { data: stakingCode } = useBytecode({
+    address: contracts?.STAKING as `0x${string}`,
+    chainId,
+    query: { enabled: !!contracts?.STAKING, staleTime: Infinity },
+  });
+
+  const { data: accountCode } = useBytecode({
+    address,
+    chainId,
+    query: { enabled: !!address },
+  });
+
+  const [separator, eip712Domain, name, nonces] = tokenData ?? [];
+  const domain =
+    contracts && chainId && separator?.status === 'success' && nonces?.status === 'success'
+      ? resolvePermitDomain({
+          chainId,
+          token: contracts.EMBER,
+          separator: separator.result,
+          eip712Domain: eip712Domain?.status === 'success' ? eip712Domain.result : undefined,
+          name: name?.status === 'success' ? name.result : undefined,
+        })
+      : null;
+  const supported = !!domain && hasFunction(stakingCode, STAKE_WITH_PERMIT) && canSignPermit(accountCode);
+
+  // Signs a permit for exactly `amount`; resolves undefined if the user declines or signing fails
+  const sign = useCallback(
+    async (amount: bigint): Promise<StakePermit | undefined> => {
+      if (!supported || !domain || !address || !chainId || !contracts) return undefined;
+      setError(null);
+      setIsSigning(true);
+      try {
+        // Read the nonce fresh, a cached one is stale after any earlier permit
+        const nonce = await readContract(config, {
+          address: contracts.EMBER,
+          abi: ERC20_PERMIT_ABI,
+          functionName: 'nonces',
+          args: [address],
+          chainId,
+        });
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+        const signature = await signTypedData(config, {
+          domain,
+          types: PERMIT_TYPES,
+          primaryType: 'Permit',
+          message: { owner: address, spender: contracts.STAKING, value: amount, nonce, deadline },
+        });
+        const { r, s, v, yParity } = parseSignature(signature);
+        return { deadline, v: v !== undefined ? Number(v) : yParity + 27, r, s };
+      } catch (err) {
+        console.error('[Permit] Signing error:', err);
+        setError(isUserRejection(err) ? 'Signature rejected by user' : describeContractError(err));
+        return undefined;
+      } finally {
+        setIsSigning(false);
+      }
+    },
+    [supported, domain, address, chainId, contracts, config]
+  );
+
+  return { supported, sign, isSigning, error };
+}
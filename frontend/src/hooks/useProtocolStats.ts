@@ -0,0 +1,20 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { ProtocolStatsResponse } from '@/lib/stats';
+
+async function fetchStats(chainId: number): Promise<ProtocolStatsResponse> {
+  const res = await fetch(`/api/stats?chainId=${chainId}`);
+  if (!res.ok) throw new Error(`Stats request failed (${res.status})`);
+  return res.json();
+}
+
+// Protocol-wide numbers from /api/stats
+export function useProtocolStats(chainId: number) {
+  return useQuery({
+    queryKey: ['protocol-stats', chainId],
+    queryFn: () => fetchStats(chainId),
+    staleTime: 60_000,
+    refetchInterval: 5 * 60_000,
+  });
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useReadContract } from 'wagmi';
+import { CONTRACTS, STAKING_ABI } from '@/config/contracts';
+import { useNow } from '@/hooks/useNow';
+import { useStakingPosition } from '@/hooks/useStakingPosition';
+
+// EmberStaking only accrues rewards once MIN_STAKE_DURATION has passed since
+// stakeStartTime (M-2 flash-stake protection). Until then earned()/earnedAll()
+// return just the already-stored rewards, which is zero for a new staker.
+export function useRewardWarmup(account: `0x${string}` | undefined, chainId: number | undefined) {
+  const contracts = chainId ? CONTRACTS[chainId as keyof typeof CONTRACTS] : null;
+  const now = useNow();
+
+  const { data: minStakeDuration } = useReadContract({
+    address: contracts?.STAKING,
+    abi: STAKING_ABI,
+    functionName: 'MIN_STAKE_DURATION',
+    query: { enabled: !!contracts, staleTime: Infinity },
+  });
+
+  const { position } = useStakingPosition(account, chainId);
+  const stakeStartTime = position?.stakeStartTime;
+  const stakedBalance = position?.stakedBalance;
+
+  // stakeStartTime isn't cleared on full unstake, so only a live position counts
+  const activatesAt =
+    stakeStartTime && minStakeDuration !== undefined && stakedBalance ? Number(stakeStartTime + minStakeDuration) : null;
+  const remaining = activatesAt !== null ? activatesAt - now : 0;
+
+  return {
+    isWarmingUp: remaining > 0,
+    activatesAt,
+    remaining: Math.max(remaining, 0),
+    minStakeDuration,
+  };
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { Abi, ContractFunctionArgs, ContractFunctionName } from 'viem';
+import { useConfig, useWriteContract } from 'wagmi';
+import { simulateContract, type SimulateContractParameters } from 'wagmi/actions';
+import { TOKEN_ERRORS_ABI, describeContractError, type ErrorContext } from '@/lib/errors';
+import { useTransactions } from '@/components/TransactionProvider';
+
+interface WriteTracking {
+  // Toast label, e.g. "Stake 1,000,000 EMBER"
+  label: string;
+  // Other contracts whose reads change, besides the one being called
+  invalidates?: `0x${string}`[];
+}
+
+// useWriteContract with a pre-flight eth_call. Every write is simulated first
+// so a revert is decoded into a readable message before the wallet ever
+// prompts; only calls that would succeed reach the wallet. Sent transactions
+// are handed to the TransactionProvider for toasts and query invalidation.
+export function useSimulatedWrite(context?: ErrorContext) {
+  const config = useConfig();
+  const { track } = useTransactions();
+  const { writeContractAsync, data, variables, isPending, reset: resetWrite } = useWriteContract();
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const write = useCallback(
+    async <
+      const abi extends Abi,
+      functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>,
+      args extends ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>,
+    >(
+      parameters: SimulateContractParameters<abi, functionName, args, typeof config>,
+      tracking: WriteTracking
+    ): Promise<`0x${string}` | undefined> => {
+      setError(null);
+      setIsSimulating(true);
+
+      let request, chainId;
+      try {
+        // Token errors are appended so reverts bubbling up from transferFrom decode too
+        ({ request, chainId } = await simulateContract(config, {
+          ...parameters,
+          abi: [...parameters.abi, ...TOKEN_ERRORS_ABI],
+        } as SimulateContractParameters));
+      } catch (err) {
+        console.error('[Simulate] Reverted:', err);
+        setError(describeContractError(err, context));
+        return undefined;
+      } finally {
+        setIsSimulating(false);
+      }
+
+      try {
+        const hash = await writeContractAsync(request);
+        track({
+          hash,
+          chainId,
+          label: tracking.label,
+          contracts: [parameters.address, ...(tracking.invalidates ?? [])],
+        });
+        return hash;
+      } catch (err) {
+        console.error('[Write] Error:', err);
+        setError(describeContractError(err, context));
+        return undefined;
+      }
+    },
+    [config, context, writeContractAsync, track]
+  );
+
+  const reset = useCallback(() => {
+    setError(null);
+    resetWrite();
+  }, [resetWrite]);
+
+  return { write, data, variables, isPending, isSimulating, error, reset };
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { StakingAprResponse } from '@/lib/apr';
+
+async function fetchApr(chainId: number): Promise<StakingAprResponse> {
+  const res = await fetch(`/api/staking/apr?chainId=${chainId}`);
+  if (!res.ok) throw new Error(`APR request failed (${res.status})`);
+  return res.json();
+}
+
+// Trailing yield from /api/staking/apr; the numbers only move when rewards are
+// deposited, so a slow refresh is plenty
+export function useStakingApr(chainId: number | undefined) {
+  return useQuery({
+    queryKey: ['staking-apr', chainId],
+    queryFn: () => fetchApr(chainId!),
+    enabled: !!chainId,
+    staleTime: 60_000,
+    refetchInterval: 5 * 60_000,
+  });
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useBlockNumber, useReadContracts } from 'wagmi';
+import { CONTRACTS, ERC20_ABI, FEE_SPLITTER_ABI, STAKING_ABI, type SupportedChainId } from '@/config/contracts';
+
+export interface TokenAmounts {
+  tokens: readonly `0x${string}`[];
+  amounts: readonly bigint[];
+}
+
+export interface StakingPosition {
+  stakedBalance: bigint;
+  totalStaked: bigint;
+  // Unix seconds; not cleared on a full unstake
+  stakeStartTime: bigint;
+  // Pending unstake; amount is 0 without one
+  unstakeRequest: { amount: bigint; unlockTime: bigint };
+  canWithdraw: boolean;
+  // EmberStaking.earnedAll
+  earned: TokenAmounts;
+  // FeeSplitter.getPendingClaims
+  contributorClaims: TokenAmounts;
+  // EMBER held by the account, its allowance to EmberStaking and the total supply
+  walletBalance: bigint;
+  allowance: bigint;
+  totalSupply: bigint;
+}
+
+// Everything the staking and rewards cards read for an account, in one
+// multicall that is refetched once per new block, so stakes, claims and
+// reward deposits by anyone show up within a block. Every caller shares the
+// same query; the TransactionProvider still invalidates it when our own
+// transactions land.
+export function useStakingPosition(account: `0x${string}` | undefined, chainId: number | undefined) {
+  const contracts = chainId && chainId in CONTRACTS ? CONTRACTS[chainId as SupportedChainId] : null;
+  const enabled = !!account && !!contracts;
+  const user = account ?? '0x0000000000000000000000000000000000000000';
+  const staking = { address: contracts?.STAKING, abi: STAKING_ABI, chainId } as const;
+  const ember = { address: contracts?.EMBER, abi: ERC20_ABI, chainId } as const;
+  const splitter = { address: contracts?.FEE_SPLITTER, abi: FEE_SPLITTER_ABI, chainId } as const;
+
+  const { data, isLoading, refetch } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...staking, functionName: 'stakedBalance', args: [user] },
+      { ...staking, functionName: 'totalStaked' },
+      { ...staking, functionName: 'stakeStartTime', args: [user] },
+      { ...staking, functionName: 'unstakeRequests', args: [user] },
+      { ...staking, functionName: 'canWithdraw', args: [user] },
+      { ...staking, functionName: 'earnedAll', args: [user] },
+      { ...splitter, functionName: 'getPendingClaims', args: [user] },
+      { ...ember, functionName: 'balanceOf', args: [user] },
+      { ...ember, functionName: 'allowance', args: [user, contracts?.STAKING ?? user] },
+      { ...ember, functionName: 'totalSupply' },
+    ],
+    query: { enabled },
+  });
+
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: enabled, query: { enabled } });
+  useEffect(() => {
+    // Joins a fetch already in flight, so several callers still cost one multicall per block
+    if (enabled && blockNumber !== undefined) refetch({ cancelRefetch: false });
+  }, [enabled, blockNumber, refetch]);
+
+  const position: StakingPosition | undefined =
+    enabled && data
+      ? {
+          stakedBalance: data[0],
+          totalStaked: data[1],
+          stakeStartTime: data[2],
+          unstakeRequest: { amount: data[3][0], unlockTime: data[3][1] },
+          canWithdraw: data[4],
+          earned: { tokens: data[5][0], amounts: data[5][1] },
+          contributorClaims: { tokens: data[6][0], amounts: data[6][1] },
+          walletBalance: data[7],
+          allowance: data[8],
+          totalSupply: data[9],
+        }
+      : undefined;
+
+  return { position, isLoading, refetch };
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { useChainId, useReadContracts } from 'wagmi';
+import { ERC20_ABI } from '@/config/contracts';
+import { formatTokenAmount, shortenAddress } from '@/lib/format';
+
+export interface TokenMetadata {
+  address: `0x${string}`;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+// Resolved metadata per `${chainId}:${address}`. Token metadata is immutable in
+// practice, so once resolved it is reused across components and re-renders.
+const cache = new Map<string, TokenMetadata>();
+
+const cacheKey = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+// A failed decimals() is retried a few times, for RPC hiccups; tokens that
+// don't implement it never resolve
+const RETRY_INTERVAL_MS = 15_000;
+const MAX_ATTEMPTS = 4;
+
+// Resolves symbol/decimals/name for a set of ERC20 tokens with a single multicall.
+// A token counts as resolved once decimals() succeeds; a missing symbol() or
+// name() falls back to its shortened address. Unresolved tokens (still loading,
+// or decimals() failed on every attempt) get the shortened address and 18
+// decimals from getToken, and formatAmount renders a placeholder instead of a
+// possibly misscaled amount.
+export function useTokenMetadata(tokens: readonly `0x${string}`[], chainId?: number) {
+  const connectedChainId = useChainId();
+  const activeChainId = chainId ?? connectedChainId;
+
+  // Only query tokens we haven't resolved yet, deduplicated
+  const missing = useMemo(
+    () =>
+      Array.from(new Set(tokens.map((t) => t.toLowerCase() as `0x${string}`))).filter(
+        (t) => !cache.has(cacheKey(activeChainId, t))
+      ),
+    [tokens, activeChainId]
+  );
+
+  const { data } = useReadContracts({
+    contracts: missing.flatMap((address) => [
+      { address, abi: ERC20_ABI, functionName: 'symbol', chainId: activeChainId } as const,
+      { address, abi: ERC20_ABI, functionName: 'decimals', chainId: activeChainId } as const,
+      { address, abi: ERC20_ABI, functionName: 'name', chainId: activeChainId } as const,
+    ]),
+    query: {
+      enabled: missing.length > 0,
+      staleTime: Infinity,
+      // Results come in symbol/decimals/name triples
+      refetchInterval: (query) =>
+        query.state.dataUpdateCount < MAX_ATTEMPTS &&
+        query.state.data?.some((result, i) => i % 3 === 1 && result.status === 'failure')
+          ? RETRY_INTERVAL_MS
+          : false,
+    },
+  });
+
+  const resolved = useMemo(() => {
+    const entries = new Map<string, TokenMetadata>();
+    missing.forEach((address, i) => {
+      const [symbol, decimals, name] = data?.slice(i * 3, i * 3 + 3) ?? [];
+      // Left out of the cache while refetchInterval retries it
+      if (decimals?.status !== 'success') return;
+      const fallback = shortenAddress(address);
+      entries.set(cacheKey(activeChainId, address), {
+        address,
+        symbol: symbol?.status === 'success' ? (symbol.result as string) : fallback,
+        name: name?.status === 'success' ? (name.result as string) : fallback,
+        decimals: decimals.result as number,
+      });
+    });
+    return entries;
+  }, [missing, data, activeChainId]);
+
+  useEffect(() => {
+    resolved.forEach((token, key) => cache.set(key, token));
+  }, [resolved]);
+
+  const lookup = useCallback(
+    (address: string) => {
+      const key = cacheKey(activeChainId, address);
+      return resolved.get(key) ?? cache.get(key);
+    },
+    [activeChainId, resolved]
+  );
+
+  const getToken = useCallback(
+    (address: string): TokenMetadata =>
+      lookup(address) ?? {
+        address: address as `0x${string}`,
+        symbol: shortenAddress(address),
+        name: shortenAddress(address),
+        decimals: 18,
+      },
+    [lookup]
+  );
+
+  const formatAmount = useCallback(
+    (address: string, amount: bigint, maximumFractionDigits?: number) => {
+      const token = lookup(address);
+      return token ? formatTokenAmount(amount, token.decimals, maximumFractionDigits) : '...';
+    },
+    [lookup]
+  );
+
+  return { getToken, formatAmount };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+const reminderKey = (chainId: number, account: string) => `ember:unlock-reminder:${chainId}:${account.toLowerCase()}`;
+
+// "Notify me" for a pending unstake request: a browser notification once it
+// unlocks, while a tab of the app is open. Used by the staking card rather than
+// the countdown, which unmounts in the same render the request unlocks.
+export function useUnlockNotification({
+  unlockTime,
+  unlocked,
+  amountLabel,
+  account,
+  chainId,
+}: {
+  unlockTime: bigint;
+  unlocked: boolean;
+  amountLabel: string;
+  account?: string;
+  chainId?: number;
+}) {
+  const [armed, setArmed] = useState(false);
+
+  // Re-arm a reminder saved on a previous visit for this same request
+  useEffect(() => {
+    const saved = account && chainId ? localStorage.getItem(reminderKey(chainId, account)) : null;
+    setArmed(
+      unlockTime > 0n &&
+        saved === unlockTime.toString() &&
+        typeof Notification !== 'undefined' &&
+        Notification.permission === 'granted'
+    );
+  }, [chainId, account, unlockTime]);
+
+  useEffect(() => {
+    if (!armed || !unlocked || !account || !chainId) return;
+    new Notification('🐉 Your EMBER is ready to withdraw', {
+      body: `${amountLabel} has finished its cooldown.`,
+    });
+    localStorage.removeItem(reminderKey(chainId, account));
+    setArmed(false);
+  }, [armed, unlocked, amountLabel, chainId, account]);
+
+  const arm = async () => {
+    if (typeof Notification === 'undefined' || !account || !chainId) return;
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') return;
+    localStorage.setItem(reminderKey(chainId, account), unlockTime.toString());
+    setArmed(true);
+  };
+
+  return { armed, arm };
+}
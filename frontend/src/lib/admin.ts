@@ -0,0 +1,503 @@
+import { isAddress, zeroAddress } from 'viem';
+import { ERC20_ABI, FEE_SPLITTER_ABI, STAKING_ABI, VESTER_ABI, type ChainContracts } from '@/config/contracts';
+import { parseAmount } from '@/lib/amount';
+import { prepareCall, type PreparedCall } from '@/lib/batch';
+import { formatBps } from '@/lib/contributors';
+import { formatDuration, formatTokenAmount, shortenAddress } from '@/lib/format';
+
+// Owner actions for the /admin console. Each builder checks raw form input
+// against the same conditions and limits the contract enforces and returns the
+// calls to send plus a field-by-field diff for the confirm step, so a bad value
+// is caught in the form rather than as a revert.
+
+export type AdminContract = 'STAKING' | 'FEE_SPLITTER' | 'VESTER';
+
+export const ADMIN_CONTRACT_NAMES: Record<AdminContract, string> = {
+  STAKING: 'EmberStaking',
+  FEE_SPLITTER: 'FeeSplitter',
+  VESTER: 'RewardVester',
+};
+
+export interface AdminChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface AdminAction {
+  contract: AdminContract;
+  // Also the toast label, e.g. "Set cooldown period to 5 days"
+  title: string;
+  // Sent in order; more than one only when an approve is needed first
+  calls: PreparedCall[];
+  changes: AdminChange[];
+  // Side effects worth reading before confirming
+  warnings: string[];
+}
+
+export type AdminResult = { action: AdminAction; error?: undefined } | { action?: undefined; error: string };
+
+export interface TokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+export interface StakingAdminState {
+  owner: `0x${string}`;
+  paused: boolean;
+  cooldownPeriod: bigint;
+  maxCooldown: bigint;
+  maxRewardTokens: bigint;
+  stakingToken: `0x${string}`;
+  // Every token ever added; deprecated ones stay in the list with active = false
+  rewardTokens: { address: `0x${string}`; active: boolean }[];
+}
+
+export interface SplitterAdminState {
+  owner: `0x${string}`;
+  stakerShareBps: bigint;
+  maxBps: bigint;
+  maxFeeBps: bigint;
+}
+
+export interface VesterSchedule {
+  id: bigint;
+  totalAmount: bigint;
+  released: bigint;
+  releasable: bigint;
+  active: boolean;
+}
+
+export interface VesterAdminState {
+  owner: `0x${string}`;
+  rewardToken: `0x${string}`;
+  maxSchedules: bigint;
+  schedules: VesterSchedule[];
+}
+
+// FeeSplitter.getAppFeeConfig; creator is the zero address for unknown apps
+export interface AppConfig {
+  feeBps: bigint;
+  creator: `0x${string}`;
+  active: boolean;
+  appType: string;
+}
+
+// FeeSplitter.getProject
+export interface ProjectConfig {
+  contributor: `0x${string}`;
+  ideaDescription: string;
+  registered: boolean;
+}
+
+type ParsedAddress = { address: `0x${string}`; error?: undefined } | { address?: undefined; error: string };
+
+export function parseAddress(input: string, label: string): ParsedAddress {
+  const value = input.trim();
+  if (!isAddress(value, { strict: false })) return { error: `${label} must be a valid address.` };
+  if (value.toLowerCase() === zeroAddress) return { error: `${label} cannot be the zero address.` };
+  return { address: value as `0x${string}` };
+}
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const percent = (bps: bigint) => formatBps(Number(bps));
+const NONE = '—';
+
+// ============ EmberStaking ============
+
+export function buildAddRewardToken(contracts: ChainContracts, state: StakingAdminState, tokenInput: string): AdminResult {
+  const token = parseAddress(tokenInput, 'Token');
+  if (token.error !== undefined) return { error: token.error };
+  const existing = state.rewardTokens.find((t) => same(t.address, token.address));
+  // addRewardToken silently returns for active tokens, and can't revive deprecated ones
+  if (existing?.active) return { error: 'This token is already a reward token.' };
+  if (existing) return { error: 'This token was deprecated and cannot be added again.' };
+  if (BigInt(state.rewardTokens.length) >= state.maxRewardTokens) {
+    return { error: `The maximum of ${state.maxRewardTokens} reward tokens has been reached.` };
+  }
+
+  return {
+    action: {
+      contract: 'STAKING',
+      title: `Add reward token ${shortenAddress(token.address)}`,
+      calls: [prepareCall({ address: contracts.STAKING, abi: STAKING_ABI, functionName: 'addRewardToken', args: [token.address] })],
+      changes: [
+        { field: 'Reward tokens', from: String(state.rewardTokens.length), to: String(state.rewardTokens.length + 1) },
+        { field: shortenAddress(token.address), from: 'not a reward token', to: 'active' },
+      ],
+      warnings:
+        BigInt(state.rewardTokens.length + 1) === state.maxRewardTokens
+          ? ['This uses the last reward token slot; deprecated tokens still count towards the limit.']
+          : [],
+    },
+  };
+}
+
+export function buildDeprecateRewardToken(contracts: ChainContracts, state: StakingAdminState, tokenInput: string): AdminResult {
+  const token = parseAddress(tokenInput, 'Token');
+  if (token.error !== undefined) return { error: token.error };
+  if (!state.rewardTokens.some((t) => t.active && same(t.address, token.address))) {
+    return { error: 'This token is not an active reward token.' };
+  }
+
+  return {
+    action: {
+      contract: 'STAKING',
+      title: `Deprecate reward token ${shortenAddress(token.address)}`,
+      calls: [prepareCall({ address: contracts.STAKING, abi: STAKING_ABI, functionName: 'deprecateRewardToken', args: [token.address] })],
+      changes: [{ field: shortenAddress(token.address), from: 'active', to: 'deprecated' }],
+      warnings: [
+        'Deprecation is permanent: the token cannot be added again.',
+        'New deposits in this token revert, so FeeSplitter fee collection in it fails too (and vester releases, for EMBER).',
+        'Stakers can still claim what they have already earned.',
+      ],
+    },
+  };
+}
+
+export function buildSetCooldownPeriod(contracts: ChainContracts, state: StakingAdminState, daysInput: string): AdminResult {
+  const days = Number(daysInput.trim());
+  if (daysInput.trim() === '' || !Number.isFinite(days) || days < 0) return { error: 'Enter a number of days.' };
+  const seconds = BigInt(Math.round(days * 86_400));
+  if (seconds > state.maxCooldown) return { error: `The cooldown cannot be longer than ${formatDuration(state.maxCooldown)}.` };
+  if (seconds === state.cooldownPeriod) return { error: 'This is already the cooldown period.' };
+
+  const warnings = ['Pending unstake requests keep their unlock time; the new period applies to new requests.'];
+  if (seconds === 0n) warnings.push('With no cooldown, unstaked tokens can be withdrawn immediately.');
+
+  return {
+    action: {
+      contract: 'STAKING',
+      title: `Set cooldown period to ${formatDuration(seconds)}`,
+      calls: [prepareCall({ address: contracts.STAKING, abi: STAKING_ABI, functionName: 'setCooldownPeriod', args: [seconds] })],
+      changes: [{ field: 'Cooldown period', from: formatDuration(state.cooldownPeriod), to: formatDuration(seconds) }],
+      warnings,
+    },
+  };
+}
+
+export function buildSetPaused(contracts: ChainContracts, state: StakingAdminState, paused: boolean): AdminResult {
+  if (paused === state.paused) return { error: paused ? 'Staking is already paused.' : 'Staking is not paused.' };
+
+  return {
+    action: {
+      contract: 'STAKING',
+      title: paused ? 'Pause staking' : 'Unpause staking',
+      calls: [prepareCall({ address: contracts.STAKING, abi: STAKING_ABI, functionName: paused ? 'pause' : 'unpause' })],
+      changes: [{ field: 'Paused', from: String(state.paused), to: String(paused) }],
+      warnings: paused
+        ? ['Blocks stake, stakeWithPermit and claimAndRestakeEmber. Unstaking, withdrawals and claims keep working.']
+        : [],
+    },
+  };
+}
+
+// ============ FeeSplitter ============
+
+export function buildSetAppFee(
+  contracts: ChainContracts,
+  state: SplitterAdminState,
+  input: { app: string; feeBps: string; creator: string; appType: string },
+  current: AppConfig | undefined
+): AdminResult {
+  const app = parseAddress(input.app, 'App');
+  if (app.error !== undefined) return { error: app.error };
+  const creator = parseAddress(input.creator, 'Creator');
+  if (creator.error !== undefined) return { error: creator.error };
+  if (!/^\d+$/.test(input.feeBps.trim())) return { error: 'Fee must be a whole number of basis points.' };
+  const feeBps = BigInt(input.feeBps.trim());
+  if (feeBps > state.maxFeeBps) return { error: `The fee cannot exceed ${percent(state.maxFeeBps)} (${state.maxFeeBps} bps).` };
+  if (!current) return { error: 'Loading the current app config...' };
+
+  const appType = input.appType.trim();
+  const isNew = current.creator === zeroAddress;
+  const changes: AdminChange[] = [];
+  if (isNew || feeBps !== current.feeBps) {
+    changes.push({ field: 'Fee', from: isNew ? NONE : percent(current.feeBps), to: percent(feeBps) });
+  }
+  if (!same(creator.address, current.creator)) {
+    changes.push({ field: 'Creator', from: isNew ? NONE : current.creator, to: creator.address });
+  }
+  if (isNew || appType !== current.appType) {
+    changes.push({ field: 'App type', from: isNew ? NONE : current.appType || '(none)', to: appType || '(none)' });
+  }
+  // _setAppFee always stores active = true
+  if (!current.active) changes.push({ field: 'Active', from: isNew ? NONE : 'false', to: 'true' });
+  if (changes.length === 0) return { error: 'Nothing to change.' };
+
+  const warnings: string[] = [];
+  if (!isNew && !same(creator.address, current.creator)) {
+    warnings.push("The old creator's unclaimed fees stay with them; changing the creator here doesn't move pending claims.");
+  }
+  if (!isNew && !current.active) warnings.push('Saving the config reactivates this app.');
+
+  return {
+    action: {
+      contract: 'FEE_SPLITTER',
+      title: `${isNew ? 'Configure' : 'Update'} app ${shortenAddress(app.address)}`,
+      calls: [
+        appType
+          ? prepareCall({
+              address: contracts.FEE_SPLITTER,
+              abi: FEE_SPLITTER_ABI,
+              functionName: 'setAppFeeWithType',
+              args: [app.address, feeBps, creator.address, appType],
+            })
+          : prepareCall({
+              address: contracts.FEE_SPLITTER,
+              abi: FEE_SPLITTER_ABI,
+              functionName: 'setAppFee',
+              args: [app.address, feeBps, creator.address],
+            }),
+      ],
+      changes,
+      warnings,
+    },
+  };
+}
+
+export function buildSetSplit(contracts: ChainContracts, state: SplitterAdminState, bpsInput: string): AdminResult {
+  if (!/^\d+$/.test(bpsInput.trim())) return { error: 'Staker share must be a whole number of basis points.' };
+  const stakerBps = BigInt(bpsInput.trim());
+  if (stakerBps > state.maxBps) return { error: `The staker share cannot exceed ${percent(state.maxBps)}.` };
+  if (stakerBps === state.stakerShareBps) return { error: 'This is already the split.' };
+
+  const split = (bps: bigint) => `${percent(bps)} stakers / ${percent(state.maxBps - bps)} contributors`;
+  return {
+    action: {
+      contract: 'FEE_SPLITTER',
+      title: `Set fee split to ${split(stakerBps)}`,
+      calls: [prepareCall({ address: contracts.FEE_SPLITTER, abi: FEE_SPLITTER_ABI, functionName: 'setSplit', args: [stakerBps] })],
+      changes: [{ field: 'Split', from: split(state.stakerShareBps), to: split(stakerBps) }],
+      warnings: ['Applies to every project and app from the next fee on; past fees are not re-split.'],
+    },
+  };
+}
+
+export function buildRegisterProject(
+  contracts: ChainContracts,
+  input: { project: string; contributor: string; ideaDescription: string },
+  current: ProjectConfig | undefined
+): AdminResult {
+  const project = parseAddress(input.project, 'Project');
+  if (project.error !== undefined) return { error: project.error };
+  const contributor = parseAddress(input.contributor, 'Contributor');
+  if (contributor.error !== undefined) return { error: contributor.error };
+  const ideaDescription = input.ideaDescription.trim();
+  if (!ideaDescription) return { error: 'Describe the idea.' };
+  if (!current) return { error: 'Loading the current project...' };
+
+  const changes: AdminChange[] = current.registered
+    ? [
+        ...(!same(current.contributor, contributor.address)
+          ? [{ field: 'Contributor', from: current.contributor, to: contributor.address }]
+          : []),
+        ...(current.ideaDescription !== ideaDescription
+          ? [{ field: 'Idea', from: current.ideaDescription, to: ideaDescription }]
+          : []),
+      ]
+    : [
+        { field: 'Registered', from: 'false', to: 'true' },
+        { field: 'Contributor', from: NONE, to: contributor.address },
+        { field: 'Idea', from: NONE, to: ideaDescription },
+      ];
+  if (changes.length === 0) return { error: 'Nothing to change.' };
+
+  return {
+    action: {
+      contract: 'FEE_SPLITTER',
+      title: `${current.registered ? 'Re-register' : 'Register'} project ${shortenAddress(project.address)}`,
+      calls: [
+        prepareCall({
+          address: contracts.FEE_SPLITTER,
+          abi: FEE_SPLITTER_ABI,
+          functionName: 'registerProject',
+          args: [project.address, contributor.address, ideaDescription],
+        }),
+      ],
+      changes,
+      warnings:
+        current.registered && !same(current.contributor, contributor.address)
+          ? ["Re-registering doesn't move the old contributor's unclaimed fees. Use Update contributor to move them."]
+          : [],
+    },
+  };
+}
+
+export function buildUpdateContributor(
+  contracts: ChainContracts,
+  input: { project: string; contributor: string },
+  current: ProjectConfig | undefined
+): AdminResult {
+  const project = parseAddress(input.project, 'Project');
+  if (project.error !== undefined) return { error: project.error };
+  const contributor = parseAddress(input.contributor, 'New contributor');
+  if (contributor.error !== undefined) return { error: contributor.error };
+  if (!current) return { error: 'Loading the current project...' };
+  if (!current.registered) return { error: 'This project is not registered.' };
+  if (same(current.contributor, contributor.address)) return { error: 'This is already the contributor.' };
+
+  return {
+    action: {
+      contract: 'FEE_SPLITTER',
+      title: `Update contributor of ${shortenAddress(project.address)}`,
+      calls: [
+        prepareCall({
+          address: contracts.FEE_SPLITTER,
+          abi: FEE_SPLITTER_ABI,
+          functionName: 'updateContributor',
+          args: [project.address, contributor.address],
+        }),
+      ],
+      changes: [{ field: 'Contributor', from: current.contributor, to: contributor.address }],
+      warnings: [
+        "All of the old wallet's unclaimed fees move to the new one, including fees earned from other projects and apps.",
+      ],
+    },
+  };
+}
+
+// ============ RewardVester ============
+
+export function buildCreateSchedule(
+  contracts: ChainContracts,
+  state: VesterAdminState,
+  input: { amount: string; start: string; durationDays: string },
+  funding: TokenInfo & { balance?: bigint; allowance?: bigint },
+  now: number
+): AdminResult {
+  if (!contracts.VESTER) return { error: 'RewardVester is not deployed on this network.' };
+  const parsed = parseAmount(input.amount, funding.decimals);
+  if (parsed.error !== undefined) return { error: parsed.error };
+  if (parsed.value === 0n) return { error: 'Enter an amount greater than zero.' };
+  const amount = parsed.value;
+
+  const days = Number(input.durationDays.trim());
+  if (!Number.isFinite(days) || days <= 0) return { error: 'The vesting duration must be greater than zero.' };
+  const duration = BigInt(Math.round(days * 86_400));
+
+  // Empty start means now; datetime-local values are in the browser's timezone
+  const startMs = input.start ? new Date(input.start).getTime() : now * 1000;
+  if (Number.isNaN(startMs)) return { error: 'Enter a valid start time.' };
+  const startTime = BigInt(Math.floor(startMs / 1000));
+
+  if (BigInt(state.schedules.length) >= state.maxSchedules) {
+    return { error: `The maximum of ${state.maxSchedules} vesting schedules has been reached.` };
+  }
+  const display = (value: bigint) => `${formatTokenAmount(value, funding.decimals, 2)} ${funding.symbol}`;
+  if (funding.balance !== undefined && amount > funding.balance) {
+    return { error: `The owner only holds ${display(funding.balance)}.` };
+  }
+
+  const calls: PreparedCall[] = [];
+  if (funding.allowance === undefined || funding.allowance < amount) {
+    calls.push(prepareCall({ address: state.rewardToken, abi: ERC20_ABI, functionName: 'approve', args: [contracts.VESTER, amount] }));
+  }
+  calls.push(
+    prepareCall({ address: contracts.VESTER, abi: VESTER_ABI, functionName: 'createSchedule', args: [amount, startTime, duration] })
+  );
+
+  const warnings: string[] = [];
+  if (calls.length > 1) warnings.push(`Approves the vester to pull ${display(amount)} from the owner first.`);
+  if (Number(startTime) < now) {
+    const elapsed = BigInt(now) - startTime;
+    const vested = elapsed >= duration ? amount : (amount * elapsed) / duration;
+    warnings.push(`The start is in the past: ${display(vested)} is releasable as soon as it's created.`);
+  }
+
+  return {
+    action: {
+      contract: 'VESTER',
+      title: `Create vesting schedule of ${display(amount)}`,
+      calls,
+      changes: [
+        { field: 'Schedules', from: String(state.schedules.length), to: String(state.schedules.length + 1) },
+        { field: `Schedule #${state.schedules.length}`, from: NONE, to: `${display(amount)} over ${formatDuration(duration)}` },
+        { field: 'Starts', from: NONE, to: new Date(Number(startTime) * 1000).toLocaleString() },
+      ],
+      warnings,
+    },
+  };
+}
+
+export function buildCancelSchedule(
+  contracts: ChainContracts,
+  state: VesterAdminState,
+  idInput: string,
+  token: TokenInfo
+): AdminResult {
+  if (!contracts.VESTER) return { error: 'RewardVester is not deployed on this network.' };
+  if (!/^\d+$/.test(idInput.trim())) return { error: 'Enter a schedule number.' };
+  const id = BigInt(idInput.trim());
+  const schedule = state.schedules.find((s) => s.id === id);
+  if (!schedule || !schedule.active) return { error: 'This schedule does not exist or was cancelled.' };
+
+  const display = (value: bigint) => `${formatTokenAmount(value, token.decimals, 2)} ${token.symbol}`;
+  const unreleased = schedule.totalAmount - schedule.released;
+  const warnings = [`${display(unreleased)} goes back to the owner.`];
+  if (schedule.releasable > 0n) {
+    warnings.push(`That includes ${display(schedule.releasable)} already vested for stakers. Release it first to pay it out.`);
+  }
+
+  return {
+    action: {
+      contract: 'VESTER',
+      title: `Cancel vesting schedule #${id}`,
+      calls: [prepareCall({ address: contracts.VESTER, abi: VESTER_ABI, functionName: 'cancelSchedule', args: [id] })],
+      changes: [
+        { field: `Schedule #${id}`, from: 'active', to: 'cancelled' },
+        { field: 'Unreleased', from: display(unreleased), to: display(0n) },
+      ],
+      warnings,
+    },
+  };
+}
+
+// ============ Emergency withdraw (all three) ============
+
+export interface RecoverableToken extends TokenInfo {
+  // Token balance of the contract
+  balance?: bigint;
+  // Part of the balance the contract won't release (owed rewards, claims, vesting commitments)
+  reserved?: bigint;
+  // Why the contract refuses this token altogether
+  blocked?: string;
+}
+
+export function buildEmergencyWithdraw(
+  contracts: ChainContracts,
+  contract: AdminContract,
+  input: { token: string; amount: string },
+  recoverable: RecoverableToken
+): AdminResult {
+  const address = contracts[contract];
+  if (!address) return { error: `${ADMIN_CONTRACT_NAMES[contract]} is not deployed on this network.` };
+  const token = parseAddress(input.token, 'Token');
+  if (token.error !== undefined) return { error: token.error };
+  if (recoverable.blocked) return { error: recoverable.blocked };
+  const parsed = parseAmount(input.amount, recoverable.decimals);
+  if (parsed.error !== undefined) return { error: parsed.error };
+  if (parsed.value === 0n) return { error: 'Enter an amount greater than zero.' };
+  const amount = parsed.value;
+
+  const display = (value: bigint) => `${formatTokenAmount(value, recoverable.decimals, 4)} ${recoverable.symbol}`;
+  if (recoverable.balance !== undefined) {
+    const available = recoverable.balance > (recoverable.reserved ?? 0n) ? recoverable.balance - (recoverable.reserved ?? 0n) : 0n;
+    if (amount > available) return { error: `Only ${display(available)} can be recovered.` };
+  }
+
+  const abi = contract === 'STAKING' ? STAKING_ABI : contract === 'FEE_SPLITTER' ? FEE_SPLITTER_ABI : VESTER_ABI;
+  return {
+    action: {
+      contract,
+      title: `Recover ${display(amount)} from ${ADMIN_CONTRACT_NAMES[contract]}`,
+      calls: [
+        prepareCall({ address, abi: abi as typeof STAKING_ABI, functionName: 'emergencyWithdraw', args: [token.address, amount] }),
+      ],
+      changes: recoverable.balance !== undefined
+        ? [{ field: `${recoverable.symbol} held`, from: display(recoverable.balance), to: display(recoverable.balance - amount) }]
+        : [],
+      warnings: ['Tokens are sent to the contract owner.'],
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { MIN_STAKE, MIN_STAKE_DISPLAY } from '@/config/contracts';
+import { formatTokenAmount } from '@/lib/format';
+
+// Parsing and validation for token amount inputs. Everything stays in bigint;
+// viem's parseUnits throws on inputs like "1e6" and silently rounds extra
+// decimals, so user input goes through parseAmount instead.
+
+export type ParsedAmount = { value: bigint; error?: undefined } | { value?: undefined; error: string };
+
+const AMOUNT_PATTERN = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// "1,000,000" / "1e6" / "0.5" -> raw units. Empty input parses to 0n.
+export function parseAmount(input: string, decimals: number): ParsedAmount {
+  const normalized = input.trim().replace(/[,_\s]/g, '');
+  if (normalized === '') return { value: 0n };
+
+  const match = AMOUNT_PATTERN.exec(normalized);
+  if (!match || (match[1] === '' && !match[2])) return { error: 'Enter a valid number.' };
+
+  const [, whole, fraction = '', exponent = '0'] = match;
+  const shift = Number(exponent);
+  if (!Number.isSafeInteger(shift) || Math.abs(shift) > 100) return { error: 'Enter a valid number.' };
+
+  // Move the decimal point by the exponent, then by the token decimals
+  let digits = whole + fraction;
+  let point = whole.length + shift + decimals;
+  if (point < 0) {
+    digits = '0'.repeat(-point) + digits;
+    point = 0;
+  }
+  const integer = digits.slice(0, point).padEnd(point, '0');
+  const rest = digits.slice(point);
+  if (/[1-9]/.test(rest)) {
+    return { error: `At most ${decimals} decimal place${decimals === 1 ? '' : 's'}.` };
+  }
+  return { value: BigInt(integer || '0') };
+}
+
+interface Balances {
+  decimals: number;
+  symbol: string;
+  // Undefined while loading, which skips the corresponding check
+  walletBalance?: bigint;
+  stakedBalance?: bigint;
+  pendingUnstake?: bigint;
+}
+
+const display = (amount: bigint, { decimals, symbol }: Balances) => `${formatTokenAmount(amount, decimals, 2)} ${symbol}`;
+
+// Mirrors EmberStaking.stake(): the resulting position must reach MIN_STAKE
+// and the tokens have to be in the wallet.
+export function validateStake(amount: bigint, balances: Balances): string | null {
+  const { walletBalance, stakedBalance, pendingUnstake } = balances;
+  if (amount === 0n) return null;
+
+  if (walletBalance !== undefined && amount > walletBalance) {
+    return `Exceeds your wallet balance of ${display(walletBalance, balances)}.`;
+  }
+  if (stakedBalance !== undefined && stakedBalance + amount < MIN_STAKE) {
+    const needed = MIN_STAKE - stakedBalance;
+    const hint = pendingUnstake ? ' Cancelling your pending unstake re-stakes it without the minimum check.' : '';
+    return stakedBalance > 0n
+      ? `Your stake must total at least ${MIN_STAKE_DISPLAY} ${balances.symbol}. Add at least ${display(needed, balances)}.${hint}`
+      : `Minimum stake is ${MIN_STAKE_DISPLAY} ${balances.symbol}.${hint}`;
+  }
+  return null;
+}
+
+// Mirrors EmberStaking.requestUnstake(), plus the minimum-position rule: what
+// stays staked must be either nothing or at least MIN_STAKE, so a position is
+// never left below the size stake() would accept.
+export function validateUnstake(amount: bigint, balances: Balances): string | null {
+  const { stakedBalance, pendingUnstake } = balances;
+  if (amount === 0n || stakedBalance === undefined) return null;
+
+  if (amount > stakedBalance) {
+    const pending = pendingUnstake ? ` (${display(pendingUnstake, balances)} is already pending unstake)` : '';
+    return `Exceeds your staked balance of ${display(stakedBalance, balances)}${pending}.`;
+  }
+  const remaining = stakedBalance - amount;
+  if (remaining > 0n && remaining < MIN_STAKE) {
+    const options = stakedBalance > MIN_STAKE ? `everything or at most ${display(stakedBalance - MIN_STAKE, balances)}` : 'everything';
+    return `Leaves ${display(remaining, balances)} staked, below the ${MIN_STAKE_DISPLAY} ${balances.symbol} minimum. Unstake ${options}.`;
+  }
+  return null;
+}
@@ -0,0 +1,47 @@
+// Shared types for the trailing yield API (/api/staking/apr).
+// Amounts are raw token units serialized as decimal strings; APRs are
+// fractions (0.12 = 12%) and null when a token can't be priced in EMBER.
+
+export const APR_WINDOW_DAYS = [7, 30, 90] as const;
+
+export interface TokenYield {
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  // Rewards deposited for stakers during the window
+  rewards: string;
+  // Part of `rewards` that came from FeeSplitter fees (the rest is vesting / direct deposits)
+  fromFees: string;
+  priceInEmber: number | null;
+  apr: number | null;
+}
+
+export interface AprWindow {
+  days: number;
+  // Less than `days` when the pool is younger than the window
+  coveredDays: number;
+  // Time-weighted average of totalStaked over the window, in EMBER wei
+  averageStaked: string;
+  tokens: TokenYield[];
+  // Sum of the priced tokens' APRs
+  totalApr: number | null;
+}
+
+export interface StakingAprResponse {
+  chainId: number;
+  priceSource: string;
+  windows: AprWindow[];
+  indexedBlock: number;
+  // True while the indexer is still backfilling; figures may be incomplete
+  syncing: boolean;
+  updatedAt: string;
+}
+
+export interface StakingAprError {
+  error: string;
+}
+
+// 0.1234 -> "12.34%"
+export function formatApr(apr: number | null): string {
+  return apr === null ? '—' : `${(apr * 100).toFixed(2)}%`;
+}
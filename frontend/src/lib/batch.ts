@@ -0,0 +1,145 @@
+import {
+  encodeFunctionData,
+  type Abi,
+  type ContractFunctionName,
+  type EIP1193RequestFn,
+  type EncodeFunctionDataParameters,
+  type Log,
+  type WalletRpcSchema,
+} from 'viem';
+
+// EIP-5792 (wallet_sendCalls) helpers. Wallets in the wild speak two versions
+// of the spec: the original 1.0 shape (`atomicBatch` capability, string bundle
+// id, PENDING / CONFIRMED status) and 2.0.0 (`atomic` capability, `{ id }`,
+// numeric status codes). Everything here normalizes both.
+
+export interface PreparedCall {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  // The decoded call, kept so the sequential fallback can simulate it
+  contract: { address: `0x${string}`; abi: Abi; functionName: string; args?: readonly unknown[] };
+}
+
+export function prepareCall<const abi extends Abi, functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>>(
+  parameters: { address: `0x${string}` } & EncodeFunctionDataParameters<abi, functionName>
+): PreparedCall {
+  const { address, ...call } = parameters;
+  return {
+    to: address,
+    data: encodeFunctionData(call as EncodeFunctionDataParameters),
+    contract: parameters as unknown as PreparedCall['contract'],
+  };
+}
+
+export type CallsVersion = '1.0' | '2.0.0';
+
+type ChainCapabilities = {
+  atomicBatch?: { supported?: boolean };
+  atomic?: { status?: 'supported' | 'ready' | 'unsupported' };
+};
+
+// Which wallet_sendCalls version to use on `chainId`, or null if the wallet can't batch atomically
+export function getBatchVersion(capabilities: unknown, chainId: number): CallsVersion | null {
+  const byChain = (capabilities ?? {}) as Record<string, ChainCapabilities | undefined>;
+  // 2.0.0 allows "0x0" for capabilities that apply to every chain
+  const chain = byChain[`0x${chainId.toString(16)}`] ?? byChain[chainId.toString()] ?? byChain['0x0'];
+  if (!chain) return null;
+
+  // "ready" means the wallet will upgrade the account (EIP-7702) when asked
+  if (chain.atomic?.status === 'supported' || chain.atomic?.status === 'ready') return '2.0.0';
+  if (chain.atomicBatch?.supported === true) return '1.0';
+  return null;
+}
+
+// Anything with an EIP-1193 request function, e.g. a wagmi wallet / connector client
+interface RequestClient {
+  request: EIP1193RequestFn<WalletRpcSchema>;
+}
+
+// viem types these methods after 1.0 only, so both versions are declared here
+interface SendCallsRequest {
+  version: CallsVersion;
+  chainId: `0x${string}`;
+  from: `0x${string}`;
+  calls: { to: `0x${string}`; data: `0x${string}` }[];
+  atomicRequired?: boolean;
+}
+
+export async function sendCalls(
+  client: RequestClient,
+  { version, chainId, from, calls }: { version: CallsVersion; chainId: number; from: `0x${string}`; calls: PreparedCall[] }
+): Promise<string> {
+  const result = await client.request<{ Parameters: [SendCallsRequest]; ReturnType: string | { id: string } }>({
+    method: 'wallet_sendCalls',
+    params: [
+      {
+        version,
+        chainId: `0x${chainId.toString(16)}`,
+        from,
+        calls: calls.map(({ to, data }) => ({ to, data })),
+        ...(version === '2.0.0' ? { atomicRequired: true } : {}),
+      },
+    ],
+  });
+  // 1.0 returns the id itself, 2.0.0 returns { id }
+  return typeof result === 'string' ? result : result.id;
+}
+
+export interface CallsReceipt {
+  transactionHash: `0x${string}`;
+  success: boolean;
+  logs: Log[];
+}
+
+export interface CallsStatus {
+  status: 'pending' | 'success' | 'failure';
+  receipts: CallsReceipt[];
+}
+
+interface RawCallsStatus {
+  status: string | number;
+  receipts?: { transactionHash: `0x${string}`; status: string; logs: Log[] }[];
+}
+
+export async function getCallsStatus(client: RequestClient, id: string): Promise<CallsStatus> {
+  const raw = await client.request<{ Parameters: [string]; ReturnType: RawCallsStatus }>({
+    method: 'wallet_getCallsStatus',
+    params: [id],
+  });
+  const receipts = (raw.receipts ?? []).map((receipt) => ({
+    transactionHash: receipt.transactionHash,
+    success: receipt.status === '0x1' || receipt.status === 'success',
+    logs: receipt.logs ?? [],
+  }));
+
+  let status: CallsStatus['status'];
+  if (typeof raw.status === 'number') {
+    // 2.0.0: 1xx pending, 200 confirmed, 4xx / 5xx / 6xx failed or (partially) reverted
+    status = raw.status < 200 ? 'pending' : raw.status === 200 ? 'success' : 'failure';
+  } else {
+    status = raw.status === 'PENDING' ? 'pending' : receipts.every((r) => r.success) ? 'success' : 'failure';
+  }
+  return { status, receipts };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Polls until the bundle settles. `getClient` is called on every attempt so a
+// wallet that is still reconnecting (e.g. after a reload) is simply retried.
+export async function waitForCalls(
+  getClient: () => Promise<RequestClient>,
+  id: string,
+  { pollingInterval = 2_000, timeout = 10 * 60_000 } = {}
+): Promise<CallsStatus> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    try {
+      const result = await getCallsStatus(await getClient(), id);
+      if (result.status !== 'pending') return result;
+    } catch (err) {
+      console.warn('[5792] wallet_getCallsStatus failed, retrying:', err);
+    }
+    await sleep(pollingInterval);
+  }
+  throw new Error('Timed out waiting for the wallet to confirm the batch.');
+}
@@ -0,0 +1,77 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getAddress } from 'viem';
+
+// Node-only helpers for reading Foundry broadcast files
+// (broadcast/<script>/<chainId>/run-latest.json). Used by the contract registry
+// generator and by server routes pointed at a local anvil deployment.
+
+// Registry key -> deploy script + contract name in that script's broadcast
+export const DEPLOYED = {
+  STAKING: { script: 'Deploy.s.sol', contract: 'EmberStaking' },
+  FEE_SPLITTER: { script: 'Deploy.s.sol', contract: 'FeeSplitter' },
+  VESTER: { script: 'DeployVester.s.sol', contract: 'RewardVester' },
+} as const;
+
+export type DeployedKey = keyof typeof DEPLOYED;
+
+interface BroadcastTransaction {
+  hash: string;
+  transactionType: string;
+  contractName: string | null;
+  contractAddress: string | null;
+  arguments: string[] | null;
+}
+
+interface BroadcastReceipt {
+  transactionHash: string;
+  blockNumber: string;
+}
+
+interface BroadcastRun {
+  transactions: BroadcastTransaction[];
+  receipts: BroadcastReceipt[];
+}
+
+export interface BroadcastDeployment {
+  address: `0x${string}`;
+  block: bigint;
+  args: string[];
+}
+
+export interface BroadcastDeployments {
+  // EMBER is the staking token, i.e. EmberStaking's first constructor argument
+  ember: `0x${string}` | null;
+  contracts: Partial<Record<DeployedKey, BroadcastDeployment>>;
+}
+
+function findDeployment(broadcastDir: string, script: string, chainId: number, contract: string) {
+  const path = join(broadcastDir, script, String(chainId), 'run-latest.json');
+  if (!existsSync(path)) return null;
+
+  const run = JSON.parse(readFileSync(path, 'utf8')) as BroadcastRun;
+  const tx = run.transactions.find(
+    (t) => t.transactionType === 'CREATE' && t.contractName === contract && t.contractAddress
+  );
+  if (!tx) return null;
+
+  const receipt = run.receipts.find((r) => r.transactionHash === tx.hash);
+  if (!receipt) throw new Error(`No receipt for ${contract} deployment in ${path}`);
+
+  return {
+    address: getAddress(tx.contractAddress!),
+    block: BigInt(receipt.blockNumber),
+    args: tx.arguments ?? [],
+  };
+}
+
+export function readBroadcastDeployments(broadcastDir: string, chainId: number): BroadcastDeployments {
+  const contracts: Partial<Record<DeployedKey, BroadcastDeployment>> = {};
+  for (const key of Object.keys(DEPLOYED) as DeployedKey[]) {
+    const deployment = findDeployment(broadcastDir, DEPLOYED[key].script, chainId, DEPLOYED[key].contract);
+    if (deployment) contracts[key] = deployment;
+  }
+
+  const ember = contracts.STAKING?.args[0];
+  return { ember: ember ? getAddress(ember) : null, contracts };
+}
@@ -0,0 +1,51 @@
+import { downloadFile } from '@/lib/download';
+
+// Minimal iCalendar (RFC 5545) export for single reminders
+
+const toIcsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/[,;]/g, (c) => `\\${c}`);
+
+export function buildIcsEvent({
+  uid,
+  start,
+  durationMinutes = 30,
+  title,
+  description,
+  url,
+}: {
+  uid: string;
+  start: Date;
+  durationMinutes?: number;
+  title: string;
+  description: string;
+  url?: string;
+}): string {
+  const end = new Date(start.getTime() + durationMinutes * 60_000);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Ember//Ember Staking//EN',
+    'CALSCALE:GREGORIAN',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${toIcsDate(new Date())}`,
+    `DTSTART:${toIcsDate(start)}`,
+    `DTEND:${toIcsDate(end)}`,
+    `SUMMARY:${escapeText(title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(url ? [`URL:${url}`] : []),
+    'BEGIN:VALARM',
+    'TRIGGER:PT0M',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(title)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function downloadIcs(filename: string, ics: string) {
+  downloadFile(filename, ics, 'text/calendar;charset=utf-8');
+}
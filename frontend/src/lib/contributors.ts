@@ -0,0 +1,52 @@
+// Shared types for the contributor directory API (/api/contributors).
+// Amounts are raw token units serialized as decimal strings.
+
+export type ContributorKind = 'project' | 'app';
+
+export interface TokenFees {
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  // Gross fees paid through the FeeSplitter
+  total: string;
+  // Share credited to the idea contributor / app creator
+  contributorShare: string;
+}
+
+export interface ContributorEntry {
+  kind: ContributorKind;
+  // Project or app contract
+  address: `0x${string}`;
+  // Idea contributor (projects) or idea creator (apps); receives the contributor share
+  recipient: `0x${string}`;
+  // Projects only
+  ideaDescription: string | null;
+  // Apps only
+  appType: string | null;
+  feeBps: number | null;
+  // Registered (projects) or active (apps)
+  active: boolean;
+  // Lifetime fees per token, largest first
+  fees: TokenFees[];
+  feeCount: number;
+  // Unix seconds
+  lastFeeAt: number | null;
+}
+
+export interface ContributorsResponse {
+  chainId: number;
+  entries: ContributorEntry[];
+  indexedBlock: number;
+  // True while the indexer is still backfilling; lifetime fees may be incomplete
+  syncing: boolean;
+  updatedAt: string;
+}
+
+export interface ContributorsError {
+  error: string;
+}
+
+// 250 -> "2.5%"
+export function formatBps(bps: number): string {
+  return `${bps / 100}%`;
+}
@@ -0,0 +1,14 @@
+// Saves generated text as a file through a temporary object URL
+
+// Long enough for Safari and Firefox to start reading the blob; revoking right
+// after click() can cancel the download there
+const REVOKE_DELAY_MS = 60_000;
+
+export function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,97 @@
+import { BaseError, ContractFunctionRevertedError, UserRejectedRequestError, parseAbi } from 'viem';
+import { MIN_STAKE_DISPLAY } from '@/config/contracts';
+import { formatTokenAmount } from '@/lib/format';
+
+// Turns reverts from EmberStaking / FeeSplitter / RewardVester (and the tokens
+// they move) into messages a user can act on. Error names come from the
+// contracts' custom errors plus the OpenZeppelin errors they inherit.
+
+// OpenZeppelin v5 ERC20 errors. A failed transferFrom inside stake() bubbles
+// up from the token, so these have to be in the ABI used for simulation.
+export const TOKEN_ERRORS_ABI = parseAbi([
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InvalidReceiver(address receiver)',
+]);
+
+export interface ErrorContext {
+  // Token being moved by the call, used to format balance / allowance errors
+  symbol?: string;
+  decimals?: number;
+}
+
+type Describe = (args: readonly unknown[], context: Required<ErrorContext>) => string;
+
+const amount = (value: unknown, context: Required<ErrorContext>) =>
+  `${formatTokenAmount(value as bigint, context.decimals, 2)} ${context.symbol}`;
+
+const CUSTOM_ERRORS: Record<string, Describe> = {
+  // EmberStaking
+  ZeroAmount: () => 'Enter an amount greater than zero.',
+  StakeBelowMinimum: () => `Your total stake must be at least ${MIN_STAKE_DISPLAY} EMBER.`,
+  InsufficientBalance: () => "You can't unstake more than you have staked.",
+  NoUnstakeRequested: () => 'You have no pending unstake request.',
+  CooldownNotComplete: () => 'Your cooldown has not finished yet. Try again once the countdown ends.',
+  TokenNotSupported: () => 'This token is not a reward token.',
+  TooManyRewardTokens: () => 'The maximum number of reward tokens has been reached.',
+  TokenHasUnclaimedRewards: () => 'This token still has unclaimed rewards and cannot be recovered.',
+  CooldownTooLong: () => 'The cooldown cannot be longer than 30 days.',
+  // FeeSplitter
+  InvalidSplit: () => 'The staker share cannot exceed 100%.',
+  NotRegisteredProject: () => 'This project or app is not registered.',
+  AppNotActive: () => 'This app is not active.',
+  FeeTooHigh: () => 'The idea fee cannot exceed 10%.',
+  // RewardVester
+  NothingToRelease: () => 'Nothing has vested since the last release.',
+  ScheduleNotStarted: () => 'This schedule has not started vesting yet.',
+  InvalidScheduleId: () => 'This schedule does not exist or was cancelled.',
+  ZeroDuration: () => 'The vesting duration must be greater than zero.',
+  TooManySchedules: () => 'The maximum number of vesting schedules has been reached.',
+  // OpenZeppelin
+  ZeroAddress: () => 'An address is missing or the token is not supported.',
+  EnforcedPause: () => 'Staking is paused right now. Unstaking, withdrawals and claims still work.',
+  ExpectedPause: () => 'This action is only available while the contract is paused.',
+  OwnableUnauthorizedAccount: () => 'Only the contract owner can do this.',
+  ReentrancyGuardReentrantCall: () => 'The call was rejected by the reentrancy guard.',
+  SafeERC20FailedOperation: () => 'The token transfer failed.',
+  ERC20InsufficientBalance: ([, balance, needed], context) =>
+    `Insufficient ${context.symbol} balance: you have ${amount(balance, context)} but need ${amount(needed, context)}.`,
+  ERC20InsufficientAllowance: ([, allowance, needed], context) =>
+    `Approval too low: ${amount(allowance, context)} approved but ${amount(needed, context)} needed. Approve again.`,
+};
+
+// Revert strings from older token implementations and require() calls
+const REVERT_REASONS: [RegExp, string][] = [
+  [/transfer amount exceeds balance|insufficient balance/i, 'Insufficient token balance for this amount.'],
+  [/insufficient allowance|transfer amount exceeds allowance/i, 'Approval too low for this amount. Approve again.'],
+  [/depositRewards failed/, 'Releasing failed while depositing rewards to stakers.'],
+];
+
+export function isUserRejection(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false;
+  // Some connectors surface the raw EIP-1193 error instead of viem's wrapper
+  return error.walk((e) => e instanceof UserRejectedRequestError || (e as { code?: number }).code === 4001) !== null;
+}
+
+// Best-effort, user-facing description of a failed simulation or write
+export function describeContractError(error: unknown, context: ErrorContext = {}): string {
+  const ctx = { symbol: context.symbol ?? 'EMBER', decimals: context.decimals ?? 18 };
+
+  if (!(error instanceof BaseError)) {
+    return error instanceof Error ? error.message : 'Something went wrong. Please try again.';
+  }
+  if (isUserRejection(error)) return 'Transaction rejected by user';
+
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (revert instanceof ContractFunctionRevertedError) {
+    const name = revert.data?.errorName;
+    if (name && CUSTOM_ERRORS[name]) return CUSTOM_ERRORS[name](revert.data?.args ?? [], ctx);
+    if (revert.reason) {
+      const known = REVERT_REASONS.find(([pattern]) => pattern.test(revert.reason!));
+      return known ? known[1] : `Transaction would fail: ${revert.reason}`;
+    }
+    return `Transaction would fail${name ? ` (${name})` : revert.signature ? ` (${revert.signature})` : ''}.`;
+  }
+
+  return error.shortMessage || error.message;
+}
@@ -0,0 +1,40 @@
+import { formatUnits } from 'viem';
+
+// Format a raw token amount for display, e.g. 1234567890000000000000n (18) -> "1,234.5679"
+export function formatTokenAmount(amount: bigint, decimals: number, maximumFractionDigits = 4): string {
+  return Number(formatUnits(amount, decimals)).toLocaleString(undefined, { maximumFractionDigits });
+}
+
+// 0x1234...abcd
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// 259200 -> "3 days", 129600 -> "1 day 12 hours", 5400 -> "1 hour 30 minutes"
+export function formatDuration(seconds: number | bigint): string {
+  const total = Number(seconds);
+  const units: [string, number][] = [
+    ['day', 86_400],
+    ['hour', 3_600],
+    ['minute', 60],
+  ];
+  const parts: string[] = [];
+  let rest = total;
+  for (const [name, size] of units) {
+    const count = Math.floor(rest / size);
+    rest -= count * size;
+    if (count > 0) parts.push(`${count} ${name}${count === 1 ? '' : 's'}`);
+    if (parts.length === 2) break;
+  }
+  return parts.length > 0 ? parts.join(' ') : `${total} seconds`;
+}
+
+// Compact countdown: 2d 04:12:33, or 04:12:33 under a day
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const days = Math.floor(s / 86_400);
+  const hms = [Math.floor((s % 86_400) / 3_600), Math.floor((s % 3_600) / 60), s % 60]
+    .map((n) => String(n).padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${hms}` : hms;
+}
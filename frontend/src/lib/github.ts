@@ -0,0 +1,54 @@
+// Shared types for the GitHub activity API (/api/github), rendered on the
+// Dragon's Den page.
+
+export interface GitHubStats {
+  repos: number;
+  stars: number;
+  // Commits pushed in the events window (the last 30 public events)
+  commits: number;
+  followers: number;
+  following: number;
+}
+
+export interface GitHubActivity {
+  // GitHub event type, e.g. "PushEvent"
+  type: string;
+  // Repo name without the owner prefix
+  repo: string;
+  // ISO timestamp
+  date: string;
+  // First commit message for pushes, otherwise the action or ref type
+  message: string | null;
+}
+
+export interface GitHubRepo {
+  name: string;
+  description: string | null;
+  url: string;
+  stars: number;
+  language: string | null;
+  updatedAt: string;
+}
+
+export interface GitHubData {
+  stats: GitHubStats;
+  // Repo count per primary language
+  languages: Record<string, number>;
+  // Events per day for the last 7 days, keyed by YYYY-MM-DD
+  activityByDay: Record<string, number>;
+  recentActivity: GitHubActivity[];
+  topRepos: GitHubRepo[];
+  // When this snapshot was fetched from GitHub
+  lastUpdated: string;
+}
+
+export interface GitHubResponse extends GitHubData {
+  // True when GitHub couldn't be reached (e.g. rate limited) and this is the last good snapshot
+  stale: boolean;
+  // Why the snapshot is stale
+  staleReason?: string;
+}
+
+export interface GitHubError {
+  error: string;
+}
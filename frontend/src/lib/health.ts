@@ -0,0 +1,38 @@
+// Shared types for the protocol health API (/api/health).
+// Amounts are raw token units serialized as decimal strings.
+
+export type HealthStatus = 'pass' | 'warn' | 'fail';
+
+export type HealthContract = 'STAKING' | 'FEE_SPLITTER' | 'VESTER';
+
+export interface HealthCheck {
+  // Stable identifier for alert rules, e.g. "staking.rewards.<token>"
+  id: string;
+  contract: HealthContract;
+  status: HealthStatus;
+  message: string;
+  // Balance checks only
+  token?: { address: `0x${string}`; symbol: string; decimals: number };
+  balance?: string;
+  required?: string;
+}
+
+export interface HealthResponse {
+  chainId: number;
+  // Worst status of all checks
+  status: HealthStatus;
+  checks: HealthCheck[];
+  // Every read is taken at this block
+  blockNumber: number;
+  updatedAt: string;
+}
+
+export interface HealthError {
+  error: string;
+}
+
+const SEVERITY: Record<HealthStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export function worstStatus(statuses: HealthStatus[]): HealthStatus {
+  return statuses.reduce<HealthStatus>((worst, status) => (SEVERITY[status] > SEVERITY[worst] ? status : worst), 'pass');
+}
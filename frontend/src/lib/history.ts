@@ -0,0 +1,44 @@
+// Shared types for the staking history API (/api/staking/history).
+// Amounts are raw token units serialized as decimal strings.
+
+export type StakingEventType =
+  | 'stake'
+  | 'unstake_request'
+  | 'cancel_unstake'
+  | 'withdraw'
+  | 'claim'
+  | 'claim_failed'
+  | 'compound';
+
+export interface StakingHistoryEvent {
+  // `${blockNumber}-${logIndex}`, unique and ordered within a chain
+  id: string;
+  type: StakingEventType;
+  account: `0x${string}`;
+  amount: string;
+  // Reward token for claim / claim_failed / compound
+  token?: `0x${string}`;
+  // Unix seconds, unstake_request only (the request's unlock time after this top-up)
+  unlockTime?: number;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+  // Unix seconds
+  timestamp: number;
+}
+
+export interface StakingHistoryResponse {
+  chainId: number;
+  account: `0x${string}`;
+  events: StakingHistoryEvent[];
+  // Pass as `cursor` to fetch the next (older) page
+  nextCursor: string | null;
+  // Last block included in the index
+  indexedBlock: number;
+  // True while the indexer is still backfilling towards the chain head
+  syncing: boolean;
+}
+
+export interface StakingHistoryError {
+  error: string;
+}
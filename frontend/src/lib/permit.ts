@@ -0,0 +1,56 @@
+import { domainSeparator, toFunctionSelector, type TypedDataDomain } from 'viem';
+
+// EIP-2612 permit helpers. A token supports permit when it exposes
+// `nonces(owner)` and `DOMAIN_SEPARATOR()`; the signing domain comes from
+// ERC-5267 `eip712Domain()` where available and is always checked against the
+// on-chain separator, so a wrong name/version never reaches the wallet.
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+// How long a signed permit stays valid
+export const PERMIT_DEADLINE_SECONDS = 20 * 60;
+
+interface DomainSources {
+  chainId: number;
+  token: `0x${string}`;
+  // DOMAIN_SEPARATOR() result
+  separator: `0x${string}`;
+  // eip712Domain() result, if the token implements ERC-5267
+  eip712Domain?: readonly [`0x${string}`, string, string, bigint, `0x${string}`, `0x${string}`, readonly bigint[]];
+  // name() result, for tokens without eip712Domain()
+  name?: string;
+}
+
+// The EIP-712 domain that reproduces the token's DOMAIN_SEPARATOR, or null if none matches
+export function resolvePermitDomain({ chainId, token, separator, eip712Domain, name }: DomainSources): TypedDataDomain | null {
+  const candidates: TypedDataDomain[] = [];
+  if (eip712Domain) {
+    const [, domainName, version, domainChainId, verifyingContract] = eip712Domain;
+    candidates.push({ name: domainName, version, chainId: Number(domainChainId), verifyingContract });
+  }
+  if (name) {
+    // OpenZeppelin and Solmate default to version "1"
+    candidates.push({ name, version: '1', chainId, verifyingContract: token });
+  }
+  return candidates.find((domain) => domainSeparator({ domain }).toLowerCase() === separator.toLowerCase()) ?? null;
+}
+
+// Whether deployed bytecode dispatches `signature`, e.g. 'stakeWithPermit(uint256,uint256,uint8,bytes32,bytes32)'.
+// Solidity compares the calldata selector against a PUSH4 of every external function.
+export function hasFunction(bytecode: `0x${string}` | undefined, signature: string): boolean {
+  if (!bytecode || bytecode === '0x') return false;
+  return bytecode.toLowerCase().includes(`63${toFunctionSelector(signature).slice(2)}`);
+}
+
+// EIP-7702 accounts carry a delegation designator as code but still sign with their EOA key
+export function canSignPermit(accountCode: `0x${string}` | undefined): boolean {
+  return !accountCode || accountCode === '0x' || accountCode.toLowerCase().startsWith('0xef0100');
+}
@@ -0,0 +1,55 @@
+// Shared types for the pool snapshot API (/api/pool), also rendered on the
+// server for the staking page. Amounts are raw token units serialized as
+// decimal strings.
+
+export interface PoolRewardToken {
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  // False once deprecated; deprecated tokens can still be claimed
+  active: boolean;
+}
+
+export interface PoolSnapshot {
+  chainId: number;
+  stakingToken: { address: `0x${string}`; symbol: string; decimals: number };
+  totalStaked: string;
+  // Of the staking token, for the share of supply staked
+  totalSupply: string;
+  // Accounts with a non-zero stake, from the indexer; null when it is unavailable
+  activeStakers: number | null;
+  // Seconds
+  cooldownPeriod: number;
+  // Seconds before a new stake starts earning
+  minStakeDuration: number;
+  paused: boolean;
+  rewardTokens: PoolRewardToken[];
+  blockNumber: number;
+  // True while the indexer is still backfilling, so activeStakers may be low
+  syncing: boolean;
+  updatedAt: string;
+}
+
+export interface PoolSnapshotError {
+  error: string;
+}
+
+export interface PoolAccountReward {
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  amount: string;
+}
+
+// One staker's position, for shared /staking/[address] links
+export interface PoolAccountSnapshot {
+  chainId: number;
+  account: `0x${string}`;
+  stakedBalance: string;
+  // Amount waiting out the cooldown, 0 without a request
+  pendingUnstake: string;
+  // earnedAll, zero amounts left out
+  rewards: PoolAccountReward[];
+  blockNumber: number;
+  updatedAt: string;
+}
@@ -0,0 +1,227 @@
+import {
+  concatHex,
+  encodeFunctionData,
+  encodePacked,
+  getAbiItem,
+  hashTypedData,
+  keccak256,
+  parseAbi,
+  size,
+  stringToHex,
+  zeroAddress,
+  type AbiFunction,
+  type TypedDataDomain,
+} from 'viem';
+import type { PreparedCall } from '@/lib/batch';
+import { downloadFile } from '@/lib/download';
+
+// Safe{Wallet} proposal export for owner actions. Queued calls become either a
+// Transaction Builder batch file (Apps → Transaction Builder → drag & drop) or
+// a single Safe transaction whose EIP-712 hash signers can check against what
+// their wallet shows. More than one call is wrapped in MultiSendCallOnly, the
+// same way the Transaction Builder itself executes a batch.
+
+export const SAFE_ABI = parseAbi([
+  'function nonce() view returns (uint256)',
+  'function VERSION() view returns (string)',
+  'function getThreshold() view returns (uint256)',
+  'function getOwners() view returns (address[])',
+]);
+
+const MULTI_SEND_ABI = parseAbi(['function multiSend(bytes transactions) payable']);
+
+// MultiSendCallOnly deployments Safe{Wallet} batches through. v1.3.0 has two:
+// the canonical one and the eip155 one that many L2 Safes (Base included) were
+// deployed with. VERSION() can't tell them apart, so the signer picks.
+export const MULTI_SEND_CALL_ONLY = [
+  { id: '1.3.0', label: 'v1.3.0 canonical', address: '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D' },
+  { id: '1.3.0-eip155', label: 'v1.3.0 eip155', address: '0xA1dabEF33b3B82c7814B6D82A79e50F4AC44102B' },
+  { id: '1.4.1', label: 'v1.4.1', address: '0x9641d764fc13c8B624c04430C7356C1C7C8102e2' },
+] as const;
+
+export type MultiSendDeployment = (typeof MULTI_SEND_CALL_ONLY)[number];
+
+// Deployment matching VERSION(); unknown versions (no Safe deployed yet) assume canonical v1.3.0
+export function defaultMultiSend(version?: string): MultiSendDeployment {
+  return MULTI_SEND_CALL_ONLY[version?.startsWith('1.4') ? 2 : 0];
+}
+
+export const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+export enum SafeOperation {
+  Call = 0,
+  DelegateCall = 1,
+}
+
+export interface SafeTransaction {
+  to: `0x${string}`;
+  value: bigint;
+  data: `0x${string}`;
+  operation: SafeOperation;
+}
+
+// One call goes to its target directly; several are delegatecalled through MultiSendCallOnly
+export function toSafeTransaction(calls: PreparedCall[], multiSend: MultiSendDeployment): SafeTransaction {
+  if (calls.length === 0) throw new Error('No calls to propose');
+  if (calls.length === 1) return { to: calls[0].to, value: 0n, data: calls[0].data, operation: SafeOperation.Call };
+
+  const packed = concatHex(
+    calls.map((call) =>
+      encodePacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [SafeOperation.Call, call.to, 0n, BigInt(size(call.data)), call.data]
+      )
+    )
+  );
+  return {
+    to: multiSend.address,
+    value: 0n,
+    data: encodeFunctionData({ abi: MULTI_SEND_ABI, functionName: 'multiSend', args: [packed] }),
+    operation: SafeOperation.DelegateCall,
+  };
+}
+
+// Safes before v1.3.0 sign without the chain id in their domain
+function safeDomain(chainId: number, safe: `0x${string}`, version?: string): TypedDataDomain {
+  const [major = 1, minor = 3] = (version ?? '1.3.0').split('.').map(Number);
+  return major > 1 || minor >= 3 ? { chainId, verifyingContract: safe } : { verifyingContract: safe };
+}
+
+// The safeTxHash the signers approve; gas refund fields are left at zero like the Safe UI does
+export function hashSafeTransaction({
+  chainId,
+  safe,
+  nonce,
+  version,
+  transaction,
+}: {
+  chainId: number;
+  safe: `0x${string}`;
+  nonce: bigint;
+  // VERSION() of the Safe, if it is deployed
+  version?: string;
+  transaction: SafeTransaction;
+}): `0x${string}` {
+  return hashTypedData({
+    domain: safeDomain(chainId, safe, version),
+    types: SAFE_TX_TYPES,
+    primaryType: 'SafeTx',
+    message: {
+      ...transaction,
+      safeTxGas: 0n,
+      baseGas: 0n,
+      gasPrice: 0n,
+      gasToken: zeroAddress,
+      refundReceiver: zeroAddress,
+      nonce,
+    },
+  });
+}
+
+// Transaction Builder batch file format
+export interface TxBuilderTransaction {
+  to: `0x${string}`;
+  value: string;
+  data: `0x${string}` | null;
+  contractMethod: { inputs: { name: string; type: string; internalType?: string }[]; name: string; payable: boolean } | null;
+  contractInputsValues: Record<string, string> | null;
+}
+
+export interface TxBuilderBatch {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string | null;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: TxBuilderTransaction[];
+}
+
+// Inputs are entered as strings in the builder: decimals for integers, JSON for arrays and tuples
+function formatInputValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'bigint' || typeof value === 'number' || typeof value === 'boolean') return value.toString();
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
+
+// Calls are exported decoded when every input is named, so the builder shows the method and arguments
+function toTxBuilderTransaction(call: PreparedCall): TxBuilderTransaction {
+  const { abi, functionName, args = [] } = call.contract;
+  const item = getAbiItem({ abi, name: functionName, args: args as unknown[] }) as AbiFunction | undefined;
+  if (!item || item.inputs.some((input) => !input.name)) {
+    return { to: call.to, value: '0', data: call.data, contractMethod: null, contractInputsValues: null };
+  }
+  return {
+    to: call.to,
+    value: '0',
+    data: null,
+    contractMethod: {
+      inputs: item.inputs.map(({ name, type, internalType }) => ({ name: name!, type, internalType: internalType ?? type })),
+      name: item.name,
+      payable: item.stateMutability === 'payable',
+    },
+    contractInputsValues: Object.fromEntries(item.inputs.map((input, i) => [input.name!, formatInputValue(args[i])])),
+  };
+}
+
+// The builder's checksum: keccak256 of the file serialized with sorted keys and the name left out
+function serializeForChecksum(json: unknown): string {
+  if (Array.isArray(json)) return `[${json.map(serializeForChecksum).join(',')}]`;
+  if (typeof json === 'object' && json !== null) {
+    const keys = Object.keys(json).sort();
+    return `{${JSON.stringify(keys)}${keys.map((key) => `${serializeForChecksum((json as Record<string, unknown>)[key])},`).join('')}}`;
+  }
+  return JSON.stringify(json === undefined ? null : json);
+}
+
+export function buildTxBuilderBatch({
+  chainId,
+  safe,
+  name,
+  description,
+  calls,
+}: {
+  chainId: number;
+  safe: `0x${string}`;
+  name: string;
+  description: string;
+  calls: PreparedCall[];
+}): TxBuilderBatch {
+  const batch: TxBuilderBatch = {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      txBuilderVersion: '1.16.5',
+      createdFromSafeAddress: safe,
+      createdFromOwnerAddress: '',
+    },
+    transactions: calls.map(toTxBuilderTransaction),
+  };
+  batch.meta.checksum = keccak256(stringToHex(serializeForChecksum({ ...batch, meta: { ...batch.meta, name: null } })));
+  return batch;
+}
+
+export function downloadTxBuilderBatch(filename: string, batch: TxBuilderBatch) {
+  downloadFile(filename, JSON.stringify(batch, null, 2), 'application/json');
+}
@@ -0,0 +1,123 @@
+import { formatUnits } from 'viem';
+import { APR_WINDOW_DAYS, type AprWindow, type StakingAprResponse, type TokenYield } from '@/lib/apr';
+import type { StakingHistoryEvent } from '@/lib/history';
+import type { ServerDeployment } from './deployments';
+import { syncStakingIndex } from './indexer';
+import { getPriceSource } from './prices';
+import { readTokenInfo } from './tokens';
+
+const SECONDS_PER_DAY = 86_400;
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY;
+
+// How each timeline event moves totalStaked. cancelUnstake and compounding
+// emit Staked and add back to the pool; withdraw doesn't (the tokens already
+// left totalStaked when the unstake was requested).
+export function stakedDelta(event: StakingHistoryEvent): bigint {
+  switch (event.type) {
+    case 'stake':
+    case 'cancel_unstake':
+    case 'compound':
+      return BigInt(event.amount);
+    case 'unstake_request':
+      return -BigInt(event.amount);
+    default:
+      return 0n;
+  }
+}
+
+// Time-weighted average totalStaked over [start, end], starting from the first
+// stake if that is later than `start`. Returns the covered interval too.
+export function averageStaked(events: StakingHistoryEvent[], start: number, end: number) {
+  const changes = events.filter((e) => stakedDelta(e) !== 0n);
+  if (changes.length === 0) return { average: 0n, coveredSeconds: 0 };
+
+  const from = Math.max(start, changes[0].timestamp);
+  let level = 0n;
+  let area = 0n;
+  let cursor = from;
+
+  for (const event of changes) {
+    if (event.timestamp > end) break;
+    if (event.timestamp > cursor) {
+      area += level * BigInt(event.timestamp - cursor);
+      cursor = event.timestamp;
+    }
+    level += stakedDelta(event);
+  }
+  area += level * BigInt(Math.max(end - cursor, 0));
+
+  const coveredSeconds = end - from;
+  return { average: coveredSeconds > 0 ? area / BigInt(coveredSeconds) : level, coveredSeconds };
+}
+
+export async function computeStakingApr(deployment: ServerDeployment): Promise<StakingAprResponse> {
+  const { index, synced } = await syncStakingIndex(deployment);
+  const priceSource = getPriceSource(deployment);
+  const now = Math.floor(Date.now() / 1000);
+
+  const tokens = Array.from(new Set(index.deposits.map((d) => d.token.toLowerCase() as `0x${string}`)));
+
+  // Metadata and prices for every token that ever reached stakers. Plain reads
+  // rather than multicall: anvil has no Multicall3, and the transport batches them.
+  const tokenInfo = new Map(
+    await Promise.all(
+      tokens.map(async (address) => {
+        const [info, price] = await Promise.all([
+          readTokenInfo(deployment, address),
+          priceSource.getPriceInEmber(deployment, address).catch(() => null),
+        ]);
+        return [address, { ...info, price }] as const;
+      })
+    )
+  );
+
+  const windows: AprWindow[] = APR_WINDOW_DAYS.map((days) => {
+    const start = now - days * SECONDS_PER_DAY;
+    const { average, coveredSeconds } = averageStaked(index.events, start, now);
+    const averageWhole = Number(formatUnits(average, 18));
+
+    const yields: TokenYield[] = tokens.map((token) => {
+      const info = tokenInfo.get(token)!;
+      const rewards = index.deposits
+        .filter((d) => d.timestamp >= start && d.token.toLowerCase() === token)
+        .reduce((sum, d) => sum + BigInt(d.amount), 0n);
+      const fromFees = index.fees
+        .filter((f) => f.timestamp >= start && f.token.toLowerCase() === token)
+        .reduce((sum, f) => sum + BigInt(f.stakerShare), 0n);
+
+      let apr: number | null = null;
+      if (info.price !== null && averageWhole > 0 && coveredSeconds > 0) {
+        const rewardsInEmber = Number(formatUnits(rewards, info.decimals)) * info.price;
+        apr = (rewardsInEmber / averageWhole) * (SECONDS_PER_YEAR / coveredSeconds);
+      }
+
+      return {
+        token,
+        symbol: info.symbol,
+        decimals: info.decimals,
+        rewards: rewards.toString(),
+        fromFees: fromFees.toString(),
+        priceInEmber: info.price,
+        apr,
+      };
+    });
+
+    const priced = yields.filter((y) => y.apr !== null);
+    return {
+      days,
+      coveredDays: Math.round((coveredSeconds / SECONDS_PER_DAY) * 10) / 10,
+      averageStaked: average.toString(),
+      tokens: yields,
+      totalApr: priced.length > 0 ? priced.reduce((sum, y) => sum + y.apr!, 0) : null,
+    };
+  });
+
+  return {
+    chainId: deployment.chainId,
+    priceSource: priceSource.name,
+    windows,
+    indexedBlock: index.lastBlock,
+    syncing: !synced,
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,113 @@
+import { FEE_SPLITTER_ABI } from '@/config/contracts';
+import type { ContributorEntry, ContributorsResponse, TokenFees } from '@/lib/contributors';
+import type { ServerDeployment } from './deployments';
+import { syncStakingIndex, type FeeReceipt } from './indexer';
+import { readTokenInfo } from './tokens';
+
+// Every project and app registered in the FeeSplitter with its current config
+// and lifetime fees. Registry data is read live; fees come from the indexed
+// FeeReceived events. Fees from unconfigured apps (paid out to the owner) have
+// no registry entry and aren't listed.
+
+// Plain reads rather than multicall: anvil has no Multicall3, and the transport batches them
+async function readList(deployment: ServerDeployment, kind: 'project' | 'app'): Promise<`0x${string}`[]> {
+  const { client, contracts } = deployment;
+  const address = contracts.FEE_SPLITTER;
+  const count =
+    kind === 'project'
+      ? await client.readContract({ address, abi: FEE_SPLITTER_ABI, functionName: 'projectCount' })
+      : await client.readContract({ address, abi: FEE_SPLITTER_ABI, functionName: 'appCount' });
+  return Promise.all(
+    Array.from({ length: Number(count) }, (_, i) =>
+      client.readContract({
+        address,
+        abi: FEE_SPLITTER_ABI,
+        functionName: kind === 'project' ? 'projectList' : 'appList',
+        args: [BigInt(i)],
+      })
+    )
+  );
+}
+
+// Lifetime fees per token for a set of receipts, largest first
+export function sumFees(receipts: FeeReceipt[], tokenInfo: Map<string, { symbol: string; decimals: number }>): TokenFees[] {
+  const byToken = new Map<string, { total: bigint; contributorShare: bigint }>();
+  for (const receipt of receipts) {
+    const token = receipt.token.toLowerCase();
+    const sum = byToken.get(token) ?? { total: 0n, contributorShare: 0n };
+    sum.total += BigInt(receipt.totalAmount);
+    sum.contributorShare += BigInt(receipt.contributorShare);
+    byToken.set(token, sum);
+  }
+  return Array.from(byToken, ([token, sum]) => ({
+    token: token as `0x${string}`,
+    ...tokenInfo.get(token)!,
+    total: sum.total.toString(),
+    contributorShare: sum.contributorShare.toString(),
+  })).sort((a, b) => (BigInt(b.total) > BigInt(a.total) ? 1 : BigInt(b.total) < BigInt(a.total) ? -1 : 0));
+}
+
+export async function computeContributors(deployment: ServerDeployment): Promise<ContributorsResponse> {
+  const { client, contracts } = deployment;
+  const address = contracts.FEE_SPLITTER;
+
+  const [{ index, synced }, projects, apps] = await Promise.all([
+    syncStakingIndex(deployment),
+    readList(deployment, 'project'),
+    readList(deployment, 'app'),
+  ]);
+
+  const [projectInfo, appInfo] = await Promise.all([
+    Promise.all(projects.map((project) => client.readContract({ address, abi: FEE_SPLITTER_ABI, functionName: 'getProject', args: [project] }))),
+    Promise.all(apps.map((app) => client.readContract({ address, abi: FEE_SPLITTER_ABI, functionName: 'getAppFeeConfig', args: [app] }))),
+  ]);
+
+  const tokens = Array.from(new Set(index.fees.map((f) => f.token.toLowerCase() as `0x${string}`)));
+  const tokenInfo = new Map(await Promise.all(tokens.map(async (token) => [token, await readTokenInfo(deployment, token)] as const)));
+
+  const feesFor = (target: `0x${string}`) => {
+    const receipts = index.fees.filter((f) => f.project.toLowerCase() === target.toLowerCase());
+    return {
+      fees: sumFees(receipts, tokenInfo),
+      feeCount: receipts.length,
+      lastFeeAt: receipts.length > 0 ? receipts[receipts.length - 1].timestamp : null,
+    };
+  };
+
+  const entries: ContributorEntry[] = [
+    ...projects.map((project, i): ContributorEntry => {
+      const [contributor, ideaDescription, registered] = projectInfo[i];
+      return {
+        kind: 'project',
+        address: project,
+        recipient: contributor,
+        ideaDescription,
+        appType: null,
+        feeBps: null,
+        active: registered,
+        ...feesFor(project),
+      };
+    }),
+    ...apps.map((app, i): ContributorEntry => {
+      const [feeBps, ideaCreator, active, appType] = appInfo[i];
+      return {
+        kind: 'app',
+        address: app,
+        recipient: ideaCreator,
+        ideaDescription: null,
+        appType: appType || null,
+        feeBps: Number(feeBps),
+        active,
+        ...feesFor(app),
+      };
+    }),
+  ];
+
+  return {
+    chainId: deployment.chainId,
+    entries,
+    indexedBlock: index.lastBlock,
+    syncing: !synced,
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,101 @@
+import { resolve } from 'node:path';
+import { createPublicClient, http, type Chain, type PublicClient } from 'viem';
+import { base, baseSepolia, foundry } from 'viem/chains';
+import { CONTRACTS, DEPLOY_BLOCKS, type ChainContracts, type DeployedContract } from '@/config/contracts';
+import { readBroadcastDeployments } from '@/lib/broadcast';
+
+// Server-side view of a deployment: an RPC client plus the contract registry
+// for that chain. Base chains come from the generated registry; a local anvil
+// node (chain 31337) is enabled by setting ANVIL_RPC_URL and is read from the
+// anvil broadcast files written by `forge script script/Deploy.s.sol`.
+
+export interface ServerDeployment {
+  chainId: number;
+  client: PublicClient;
+  contracts: ChainContracts;
+  deployBlocks: Partial<Record<DeployedContract, bigint>>;
+  // Blocks to stay behind the head when indexing, to avoid reorged logs
+  confirmations: bigint;
+  explorerUrl: string | null;
+}
+
+// Same RPC selection as the wallet config in app/providers.tsx
+const alchemyKey = process.env.ALCHEMY_API_KEY || process.env.NEXT_PUBLIC_ALCHEMY_API_KEY;
+const RPC_URLS: Record<number, string> = {
+  [base.id]: alchemyKey ? `https://base-mainnet.g.alchemy.com/v2/${alchemyKey}` : 'https://mainnet.base.org',
+  [baseSepolia.id]: alchemyKey ? `https://base-sepolia.g.alchemy.com/v2/${alchemyKey}` : 'https://sepolia.base.org',
+};
+
+const CHAINS: Record<number, Chain> = {
+  [base.id]: base,
+  [baseSepolia.id]: baseSepolia,
+  [foundry.id]: foundry,
+};
+
+const deployments = new Map<number, ServerDeployment>();
+
+function createClient(chain: Chain, url: string): PublicClient {
+  return createPublicClient({ chain, transport: http(url, { batch: true }) }) as PublicClient;
+}
+
+function loadAnvilDeployment(): ServerDeployment | null {
+  const rpcUrl = process.env.ANVIL_RPC_URL;
+  if (!rpcUrl) return null;
+
+  const broadcastDir = process.env.ANVIL_BROADCAST_DIR || resolve(process.cwd(), '../broadcast');
+  const { ember, contracts } = readBroadcastDeployments(broadcastDir, foundry.id);
+  if (!ember || !contracts.STAKING || !contracts.FEE_SPLITTER) {
+    throw new Error(`ANVIL_RPC_URL is set but no Deploy.s.sol broadcast was found in ${broadcastDir}/*/${foundry.id}`);
+  }
+
+  return {
+    chainId: foundry.id,
+    client: createClient(foundry, rpcUrl),
+    contracts: {
+      EMBER: ember,
+      WETH: '0x4200000000000000000000000000000000000006',
+      STAKING: contracts.STAKING.address,
+      FEE_SPLITTER: contracts.FEE_SPLITTER.address,
+      VESTER: contracts.VESTER?.address,
+    },
+    deployBlocks: {
+      STAKING: contracts.STAKING.block,
+      FEE_SPLITTER: contracts.FEE_SPLITTER.block,
+      VESTER: contracts.VESTER?.block,
+    },
+    confirmations: 0n,
+    explorerUrl: null,
+  };
+}
+
+// Returns null for chains that are neither in the registry nor a configured anvil node
+export function getServerDeployment(chainId: number): ServerDeployment | null {
+  const cached = deployments.get(chainId);
+  if (cached) return cached;
+
+  let deployment: ServerDeployment | null = null;
+  if (chainId === foundry.id) {
+    deployment = loadAnvilDeployment();
+  } else if (chainId in CONTRACTS) {
+    const id = chainId as keyof typeof CONTRACTS;
+    const chain = CHAINS[chainId];
+    deployment = {
+      chainId,
+      client: createClient(chain, RPC_URLS[chainId]),
+      contracts: CONTRACTS[id],
+      deployBlocks: DEPLOY_BLOCKS[id],
+      confirmations: 5n,
+      explorerUrl: chain.blockExplorers?.default.url ?? null,
+    };
+  }
+
+  if (deployment) deployments.set(chainId, deployment);
+  return deployment;
+}
+
+// Parses a `chainId` query parameter, defaulting to Base Mainnet
+export function parseChainId(value: string | null): number | null {
+  if (!value) return base.id;
+  const chainId = Number(value);
+  return Number.isInteger(chainId) && chainId > 0 ? chainId : null;
+}
@@ -0,0 +1,245 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { GitHubActivity, GitHubData, GitHubRepo, GitHubResponse } from '@/lib/github';
+
+// GitHub profile, repos and recent events for the Dragon's Den page. Requests
+// are conditional (ETag / If-None-Match, so unchanged resources don't count
+// against the rate limit) and authenticated when GITHUB_TOKEN is set. The last
+// good snapshot is kept in memory and on disk and served, marked stale, when
+// GitHub fails. GITHUB_MOCK=1 reads fixtures/github/*.json instead, and
+// GITHUB_MOCK=rate-limit answers every request as rate limited.
+
+const GITHUB_USERNAME = 'emberdragonc';
+const API_URL = 'https://api.github.com';
+const DATA_DIR = resolve(process.env.INDEXER_DATA_DIR || '.data');
+const FIXTURES_DIR = resolve(process.env.GITHUB_FIXTURES_DIR || 'fixtures/github');
+// Serve the snapshot without asking GitHub again within this interval
+const MIN_REFRESH_INTERVAL_MS = 60_000;
+
+interface RepoData {
+  name: string;
+  description: string | null;
+  html_url: string;
+  stargazers_count: number;
+  language: string | null;
+  updated_at: string;
+  pushed_at: string;
+}
+
+interface EventData {
+  type: string;
+  created_at: string;
+  repo: { name: string };
+  payload: {
+    commits?: { message: string }[];
+    size?: number;
+    action?: string;
+    ref_type?: string;
+  };
+}
+
+interface UserData {
+  followers: number;
+  following: number;
+}
+
+// Where the three resources come from: the API, or fixtures in mock mode
+interface GitHubSource {
+  name: string;
+  // Snapshot file the source reads and writes, so mock data never replaces real data
+  snapshot: string;
+  get<T>(path: string): Promise<T>;
+}
+
+// ETag and body of the last 200 per path, replayed on 304
+const conditionalCache = new Map<string, { etag: string; body: unknown }>();
+
+function rateLimitMessage(res: Response): string {
+  const reset = Number(res.headers.get('x-ratelimit-reset'));
+  return reset > 0 ? `GitHub rate limit exceeded until ${new Date(reset * 1000).toISOString()}` : 'GitHub rate limit exceeded';
+}
+
+const apiSource: GitHubSource = {
+  name: 'api',
+  snapshot: 'api',
+  async get<T>(path: string): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    };
+    if (process.env.GITHUB_TOKEN) headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+    const cached = conditionalCache.get(path);
+    if (cached) headers['If-None-Match'] = cached.etag;
+
+    // Bypass the Next.js fetch cache, the ETag handling above does the caching
+    const res = await fetch(`${API_URL}${path}`, { headers, cache: 'no-store' });
+    if (res.status === 304 && cached) return cached.body as T;
+    if ((res.status === 403 || res.status === 429) && res.headers.get('x-ratelimit-remaining') === '0') {
+      throw new Error(rateLimitMessage(res));
+    }
+    if (!res.ok) throw new Error(`GitHub ${path} failed (${res.status})`);
+
+    const body = (await res.json()) as T;
+    const etag = res.headers.get('etag');
+    if (etag) conditionalCache.set(path, { etag, body });
+    return body;
+  },
+};
+
+// /users/emberdragonc/repos?sort=updated -> fixtures/github/repos.json
+const fixtureSource: GitHubSource = {
+  name: 'fixtures',
+  snapshot: 'fixtures',
+  async get<T>(path: string): Promise<T> {
+    const resource = path.split('?')[0].split('/').slice(3).join('-') || 'user';
+    return JSON.parse(await readFile(join(FIXTURES_DIR, `${resource}.json`), 'utf8')) as T;
+  },
+};
+
+const rateLimitedSource: GitHubSource = {
+  name: 'rate-limit',
+  // Falls back to the fixture snapshot, to exercise the degraded path
+  snapshot: 'fixtures',
+  async get() {
+    throw new Error('GitHub rate limit exceeded (mock)');
+  },
+};
+
+function getSource(): GitHubSource {
+  const mock = process.env.GITHUB_MOCK;
+  if (!mock || mock === '0' || mock === 'false') return apiSource;
+  return mock === 'rate-limit' ? rateLimitedSource : fixtureSource;
+}
+
+function summarize(repos: RepoData[], events: EventData[], user: UserData): GitHubData {
+  const languages: Record<string, number> = {};
+  for (const repo of repos) {
+    if (repo.language) languages[repo.language] = (languages[repo.language] || 0) + 1;
+  }
+
+  // Each push is at least one commit; the API often leaves out the commit list
+  const commits = events
+    .filter((e) => e.type === 'PushEvent')
+    .reduce((sum, e) => sum + (e.payload.commits?.length || e.payload.size || 1), 0);
+
+  const activityByDay: Record<string, number> = {};
+  const now = new Date();
+  for (let i = 6; i >= 0; i--) {
+    const date = new Date(now);
+    date.setDate(date.getDate() - i);
+    activityByDay[date.toISOString().split('T')[0]] = 0;
+  }
+  for (const event of events) {
+    const date = event.created_at.split('T')[0];
+    if (activityByDay[date] !== undefined) activityByDay[date]++;
+  }
+
+  const recentActivity: GitHubActivity[] = events.slice(0, 10).map((e) => ({
+    type: e.type,
+    repo: e.repo.name.replace(`${GITHUB_USERNAME}/`, ''),
+    date: e.created_at,
+    message:
+      e.type === 'PushEvent'
+        ? (e.payload.commits?.[0]?.message?.slice(0, 50) ?? null)
+        : e.payload.action || e.payload.ref_type || e.type,
+  }));
+
+  const topRepos: GitHubRepo[] = [...repos]
+    .sort((a, b) => new Date(b.pushed_at).getTime() - new Date(a.pushed_at).getTime())
+    .slice(0, 6)
+    .map((r) => ({
+      name: r.name,
+      description: r.description,
+      url: r.html_url,
+      stars: r.stargazers_count,
+      language: r.language,
+      updatedAt: r.updated_at,
+    }));
+
+  return {
+    stats: {
+      repos: repos.length,
+      stars: repos.reduce((sum, repo) => sum + repo.stargazers_count, 0),
+      commits,
+      followers: user.followers,
+      following: user.following,
+    },
+    languages,
+    activityByDay,
+    recentActivity,
+    topRepos,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+async function fetchGitHubData(source: GitHubSource): Promise<GitHubData> {
+  const [repos, events, user] = await Promise.all([
+    source.get<RepoData[]>(`/users/${GITHUB_USERNAME}/repos?sort=updated&per_page=100`),
+    source.get<EventData[]>(`/users/${GITHUB_USERNAME}/events?per_page=30`),
+    source.get<UserData>(`/users/${GITHUB_USERNAME}`),
+  ]);
+  if (!Array.isArray(repos) || !Array.isArray(events)) throw new Error('Unexpected GitHub response');
+  return summarize(repos, events, user);
+}
+
+// ============ Last good snapshot ============
+
+const snapshotPath = (source: GitHubSource) => join(DATA_DIR, `github-${GITHUB_USERNAME}-${source.snapshot}.json`);
+
+let snapshot: { source: string; data: GitHubData } | null = null;
+let lastResult: { source: string; at: number; response: GitHubResponse } | null = null;
+let inFlight: Promise<GitHubResponse> | null = null;
+
+async function loadSnapshot(source: GitHubSource): Promise<GitHubData | null> {
+  if (snapshot?.source === source.snapshot) return snapshot.data;
+  try {
+    return JSON.parse(await readFile(snapshotPath(source), 'utf8')) as GitHubData;
+  } catch {
+    return null;
+  }
+}
+
+async function saveSnapshot(source: GitHubSource, data: GitHubData) {
+  snapshot = { source: source.snapshot, data };
+  const path = snapshotPath(source);
+  try {
+    await mkdir(DATA_DIR, { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(data));
+    await rename(`${path}.tmp`, path);
+  } catch (error) {
+    // Read-only filesystems (serverless) still get the in-memory snapshot
+    console.warn('Failed to persist GitHub snapshot:', error);
+  }
+}
+
+async function refresh(source: GitHubSource): Promise<GitHubResponse> {
+  try {
+    const data = await fetchGitHubData(source);
+    await saveSnapshot(source, data);
+    return { ...data, stale: false };
+  } catch (error) {
+    const previous = await loadSnapshot(source);
+    if (!previous) throw error;
+    const reason = error instanceof Error ? error.message : 'GitHub request failed';
+    console.warn('Serving stale GitHub snapshot:', reason);
+    return { ...previous, stale: true, staleReason: reason };
+  }
+}
+
+// Fresh data, or the last good snapshot marked stale. Throws only when GitHub
+// fails and there is no snapshot yet. Failures are remembered for the same
+// interval as successes, so a rate limit isn't hit again on every request.
+export async function getGitHubData(): Promise<GitHubResponse> {
+  const source = getSource();
+  if (lastResult?.source === source.name && Date.now() - lastResult.at < MIN_REFRESH_INTERVAL_MS) {
+    return lastResult.response;
+  }
+  // Concurrent requests share one refresh
+  inFlight ??= refresh(source)
+    .then((response) => {
+      lastResult = { source: source.name, at: Date.now(), response };
+      return response;
+    })
+    .finally(() => (inFlight = null));
+  return inFlight;
+}
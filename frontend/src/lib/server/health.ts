@@ -0,0 +1,248 @@
+import { formatUnits, zeroAddress } from 'viem';
+import { ERC20_ABI, FEE_SPLITTER_ABI, STAKING_ABI, VESTER_ABI } from '@/config/contracts';
+import { worstStatus, type HealthCheck, type HealthContract, type HealthResponse } from '@/lib/health';
+import type { ServerDeployment } from './deployments';
+import { syncStakingIndex } from './indexer';
+import { readTokenInfo, type ServerTokenInfo } from './tokens';
+
+// Solvency and configuration checks over the live contracts. Each contract
+// keeps an on-chain total of what it owes (totalOwedRewards,
+// totalPendingClaims, unreleased vesting); a balance below that total means
+// some claim can no longer be paid and fails the check. EmberStaking also holds
+// pending unstakes, which requestUnstake takes out of totalStaked but only
+// withdraw pays out, so those are covered on top of totalStaked.
+
+// Warn once this few reward token slots are left before MAX_REWARD_TOKENS
+const REWARD_TOKEN_HEADROOM = 2n;
+
+interface BalanceCheck {
+  id: string;
+  contract: HealthContract;
+  label: string;
+  token: `0x${string}`;
+  info: ServerTokenInfo;
+  balance: bigint;
+  required: bigint;
+}
+
+function balanceCheck({ id, contract, label, token, info, balance, required }: BalanceCheck): HealthCheck {
+  const display = (amount: bigint) => `${formatUnits(amount, info.decimals)} ${info.symbol}`;
+  const ok = balance >= required;
+  return {
+    id,
+    contract,
+    status: ok ? 'pass' : 'fail',
+    message: ok
+      ? `${label}: ${display(balance)} covers ${display(required)}`
+      : `${label}: ${display(balance)} is short of ${display(required)} by ${display(required - balance)}`,
+    token: { address: token, ...info },
+    balance: balance.toString(),
+    required: required.toString(),
+  };
+}
+
+// Sum of pending unstake requests at `blockNumber`, read live for every account
+// that ever requested one. Null while the indexer is still backfilling, since
+// requesters could be missing, or when it fails.
+async function pendingUnstakes(deployment: ServerDeployment, blockNumber: bigint): Promise<bigint | null> {
+  const { client, contracts } = deployment;
+  const sync = await syncStakingIndex(deployment).catch((error) => {
+    console.error('Health check indexer error:', error);
+    return null;
+  });
+  if (!sync?.synced) return null;
+  const { index } = sync;
+
+  const requesters = new Set(
+    index.events.filter((event) => event.type === 'unstake_request').map((event) => event.account.toLowerCase() as `0x${string}`)
+  );
+  // The indexer stays a few confirmations behind the head
+  if (BigInt(index.lastBlock) < blockNumber) {
+    const recent = await client.getContractEvents({
+      address: contracts.STAKING,
+      abi: STAKING_ABI,
+      eventName: 'UnstakeRequested',
+      fromBlock: BigInt(index.lastBlock + 1),
+      toBlock: blockNumber,
+      strict: true,
+    });
+    for (const log of recent) requesters.add(log.args.user.toLowerCase() as `0x${string}`);
+  }
+
+  const requests = await Promise.all(
+    Array.from(requesters, (account) =>
+      client.readContract({ address: contracts.STAKING, abi: STAKING_ABI, functionName: 'unstakeRequests', args: [account], blockNumber })
+    )
+  );
+  return requests.reduce((sum, [amount]) => sum + amount, 0n);
+}
+
+// A passing EMBER check that couldn't include pending unstakes proves nothing
+function withoutPendingUnstakes(check: HealthCheck): HealthCheck {
+  if (check.status !== 'pass') return check;
+  return { ...check, status: 'warn', message: `${check.message}; pending unstakes are unaccounted until the indexer is available and caught up` };
+}
+
+async function checkStaking(deployment: ServerDeployment, blockNumber: bigint): Promise<HealthCheck[]> {
+  const { client, contracts } = deployment;
+  const staking = { address: contracts.STAKING, abi: STAKING_ABI, blockNumber } as const;
+
+  const [paused, totalStaked, stakingToken, rewardTokenCount, maxRewardTokens] = await Promise.all([
+    client.readContract({ ...staking, functionName: 'paused' }),
+    client.readContract({ ...staking, functionName: 'totalStaked' }),
+    client.readContract({ ...staking, functionName: 'stakingToken' }),
+    client.readContract({ ...staking, functionName: 'rewardTokenCount' }),
+    client.readContract({ ...staking, functionName: 'MAX_REWARD_TOKENS' }),
+  ]);
+  // Deprecated tokens stay in the list and can still be owed
+  const rewardTokens = await Promise.all(
+    Array.from({ length: Number(rewardTokenCount) }, (_, i) =>
+      client.readContract({ ...staking, functionName: 'rewardTokens', args: [BigInt(i)] })
+    )
+  );
+
+  const balanceOf = (token: `0x${string}`) =>
+    client.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [contracts.STAKING], blockNumber });
+  const [stakedBalance, stakingInfo, pending] = await Promise.all([
+    balanceOf(stakingToken),
+    readTokenInfo(deployment, stakingToken),
+    pendingUnstakes(deployment, blockNumber),
+  ]);
+  const principal = totalStaked + (pending ?? 0n);
+  const adjust = (check: HealthCheck) => (pending === null ? withoutPendingUnstakes(check) : check);
+
+  const checks: HealthCheck[] = [
+    {
+      id: 'staking.paused',
+      contract: 'STAKING',
+      status: paused ? 'warn' : 'pass',
+      message: paused ? 'Staking is paused: new stakes and compounding are disabled' : 'Staking is not paused',
+    },
+    {
+      id: 'staking.reward_tokens',
+      contract: 'STAKING',
+      status: maxRewardTokens - rewardTokenCount <= REWARD_TOKEN_HEADROOM ? 'warn' : 'pass',
+      message: `${rewardTokenCount} of ${maxRewardTokens} reward token slots used (deprecated tokens keep their slot)`,
+    },
+    adjust(
+      balanceCheck({
+        id: 'staking.principal',
+        contract: 'STAKING',
+        label: 'Staked principal and pending unstakes',
+        token: stakingToken,
+        info: stakingInfo,
+        balance: stakedBalance,
+        required: principal,
+      })
+    ),
+  ];
+
+  const rewardChecks = await Promise.all(
+    rewardTokens.map(async (token) => {
+      const isStakingToken = token.toLowerCase() === stakingToken.toLowerCase();
+      const [owed, balance, info] = await Promise.all([
+        client.readContract({ ...staking, functionName: 'totalOwedRewards', args: [token] }),
+        isStakingToken ? stakedBalance : balanceOf(token),
+        isStakingToken ? stakingInfo : readTokenInfo(deployment, token),
+      ]);
+      // EMBER rewards share the balance with the principal, which is checked above
+      const available = isStakingToken ? (balance > principal ? balance - principal : 0n) : balance;
+      const check = balanceCheck({
+        id: `staking.rewards.${token.toLowerCase()}`,
+        contract: 'STAKING',
+        label: `Owed ${info.symbol} rewards`,
+        token,
+        info,
+        balance: available,
+        required: owed,
+      });
+      return isStakingToken ? adjust(check) : check;
+    })
+  );
+
+  return [...checks, ...rewardChecks];
+}
+
+async function checkSplitter(deployment: ServerDeployment, blockNumber: bigint): Promise<HealthCheck[]> {
+  const { client, contracts } = deployment;
+  const splitter = { address: contracts.FEE_SPLITTER, abi: FEE_SPLITTER_ABI, blockNumber } as const;
+
+  // getPendingClaims returns the full supported token list for any address
+  const [tokens] = await client.readContract({ ...splitter, functionName: 'getPendingClaims', args: [zeroAddress] });
+
+  return Promise.all(
+    tokens.map(async (token) => {
+      const [pending, balance, info] = await Promise.all([
+        client.readContract({ ...splitter, functionName: 'totalPendingClaims', args: [token] }),
+        client.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [contracts.FEE_SPLITTER], blockNumber }),
+        readTokenInfo(deployment, token),
+      ]);
+      return balanceCheck({
+        id: `splitter.claims.${token.toLowerCase()}`,
+        contract: 'FEE_SPLITTER',
+        label: `Pending ${info.symbol} contributor claims`,
+        token,
+        info,
+        balance,
+        required: pending,
+      });
+    })
+  );
+}
+
+async function checkVester(deployment: ServerDeployment, blockNumber: bigint): Promise<HealthCheck[]> {
+  const { client, contracts } = deployment;
+  if (!contracts.VESTER) return [];
+  const vester = { address: contracts.VESTER, abi: VESTER_ABI, blockNumber } as const;
+
+  const [rewardToken, scheduleCount] = await Promise.all([
+    client.readContract({ ...vester, functionName: 'rewardToken' }),
+    client.readContract({ ...vester, functionName: 'scheduleCount' }),
+  ]);
+  const [schedules, balance, info] = await Promise.all([
+    Promise.all(
+      Array.from({ length: Number(scheduleCount) }, (_, i) =>
+        client.readContract({ ...vester, functionName: 'getSchedule', args: [BigInt(i)] })
+      )
+    ),
+    client.readContract({ address: rewardToken, abi: ERC20_ABI, functionName: 'balanceOf', args: [contracts.VESTER], blockNumber }),
+    readTokenInfo(deployment, rewardToken),
+  ]);
+
+  // Same as RewardVester._totalCommitted: everything not yet released from active schedules
+  const committed = schedules.reduce(
+    (sum, [totalAmount, released, , , , , , active]) => (active ? sum + totalAmount - released : sum),
+    0n
+  );
+
+  return [
+    balanceCheck({
+      id: 'vester.committed',
+      contract: 'VESTER',
+      label: `Committed ${info.symbol} vesting`,
+      token: rewardToken,
+      info,
+      balance,
+      required: committed,
+    }),
+  ];
+}
+
+export async function computeHealth(deployment: ServerDeployment): Promise<HealthResponse> {
+  const blockNumber = await deployment.client.getBlockNumber();
+  const checks = (
+    await Promise.all([
+      checkStaking(deployment, blockNumber),
+      checkSplitter(deployment, blockNumber),
+      checkVester(deployment, blockNumber),
+    ])
+  ).flat();
+
+  return {
+    chainId: deployment.chainId,
+    status: worstStatus(checks.map((check) => check.status)),
+    checks,
+    blockNumber: Number(blockNumber),
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,332 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { getAbiItem, type Log } from 'viem';
+import { ERC20_ABI, FEE_SPLITTER_ABI, STAKING_ABI } from '@/config/contracts';
+import type { StakingHistoryEvent } from '@/lib/history';
+import type { ServerDeployment } from './deployments';
+
+// Incremental EmberStaking / FeeSplitter event indexer backed by a JSON file per deployment.
+// Each sync resumes from the last indexed block, fetches logs in fixed block
+// ranges and persists after every range, so a backfill can be spread over
+// several requests.
+
+const INDEX_DIR = resolve(process.env.INDEXER_DATA_DIR || '.data');
+const BLOCK_RANGE = BigInt(process.env.INDEXER_BLOCK_RANGE || 2000);
+// Don't hit the RPC more than once per interval for the same deployment
+const MIN_SYNC_INTERVAL_MS = 10_000;
+// Stop backfilling after this long and serve what we have; the next request continues
+const MAX_SYNC_DURATION_MS = 8_000;
+// Blocks fetched at once for log timestamps
+const BLOCK_FETCH_BATCH = 10;
+// Bump when the stored shape changes; older files are re-indexed from scratch
+const INDEX_VERSION = 4;
+
+const STAKING_EVENTS = [
+  getAbiItem({ abi: STAKING_ABI, name: 'Staked' }),
+  getAbiItem({ abi: STAKING_ABI, name: 'UnstakeRequested' }),
+  getAbiItem({ abi: STAKING_ABI, name: 'Withdrawn' }),
+  getAbiItem({ abi: STAKING_ABI, name: 'RewardsClaimed' }),
+  getAbiItem({ abi: STAKING_ABI, name: 'RewardClaimFailed' }),
+  getAbiItem({ abi: STAKING_ABI, name: 'RewardsDeposited' }),
+  getAbiItem({ abi: FEE_SPLITTER_ABI, name: 'FeesCollected' }),
+  getAbiItem({ abi: FEE_SPLITTER_ABI, name: 'FeeReceived' }),
+];
+const TRANSFER_EVENT = getAbiItem({ abi: ERC20_ABI, name: 'Transfer' });
+
+interface IndexedLog {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+  // Unix seconds
+  timestamp: number;
+}
+
+// EmberStaking.RewardsDeposited - every reward that reached stakers (fees and vesting)
+export interface RewardDeposit extends IndexedLog {
+  token: `0x${string}`;
+  amount: string;
+}
+
+// FeeSplitter.FeeReceived - the fee side of a deposit; stakerShare is also
+// counted in the RewardsDeposited emitted by the same transaction
+export interface FeeReceipt extends IndexedLog {
+  // Project (receiveFee) or app (collectFees) the fee was paid for
+  project: `0x${string}`;
+  // 'app' when collectFees also emitted FeesCollected, 'project' for legacy receiveFee
+  source: 'app' | 'project';
+  token: `0x${string}`;
+  totalAmount: string;
+  stakerShare: string;
+  contributorShare: string;
+}
+
+export interface StakingIndex {
+  version: number;
+  chainId: number;
+  staking: `0x${string}`;
+  // Last block included; -1 before the first sync
+  lastBlock: number;
+  // Per-account timeline, in chain order
+  events: StakingHistoryEvent[];
+  deposits: RewardDeposit[];
+  fees: FeeReceipt[];
+}
+
+export interface SyncResult {
+  index: StakingIndex;
+  // False when the sync stopped early and the index is behind the confirmed head
+  synced: boolean;
+}
+
+export type DecodedLog = Log<bigint, number, false, undefined, true, typeof STAKING_EVENTS>;
+
+// EMBER Transfer into EmberStaking
+export interface StakeTransfer {
+  transactionHash: `0x${string}`;
+  from: `0x${string}`;
+  value: bigint;
+}
+
+const indexPath = (deployment: ServerDeployment) =>
+  join(INDEX_DIR, `staking-${deployment.chainId}-${deployment.contracts.STAKING.toLowerCase()}.json`);
+
+// Latest index per file, so syncs continue where the last one stopped even
+// when the file can't be written
+const indexes = new Map<string, StakingIndex>();
+let persistFailed = false;
+
+async function loadIndex(deployment: ServerDeployment): Promise<StakingIndex> {
+  const cached = indexes.get(indexPath(deployment));
+  if (cached) return cached;
+  try {
+    const index = JSON.parse(await readFile(indexPath(deployment), 'utf8')) as StakingIndex;
+    if (index.version === INDEX_VERSION) return index;
+  } catch {
+    // Missing or unreadable index, start over
+  }
+  return {
+    version: INDEX_VERSION,
+    chainId: deployment.chainId,
+    staking: deployment.contracts.STAKING,
+    lastBlock: Number(deployment.deployBlocks.STAKING ?? 0n) - 1,
+    events: [],
+    deposits: [],
+    fees: [],
+  };
+}
+
+async function saveIndex(deployment: ServerDeployment, index: StakingIndex) {
+  const path = indexPath(deployment);
+  indexes.set(path, index);
+  try {
+    await mkdir(INDEX_DIR, { recursive: true });
+    // Write-then-rename so a crash never leaves a truncated index behind
+    await writeFile(`${path}.tmp`, JSON.stringify(index));
+    await rename(`${path}.tmp`, path);
+  } catch (error) {
+    // Read-only filesystems (serverless) keep the index in memory only; warn once, not per range
+    if (!persistFailed) console.warn('Failed to persist staking index:', error);
+    persistFailed = true;
+  }
+}
+
+const lower = (address: string) => address.toLowerCase();
+
+export interface IndexedRange {
+  events: StakingHistoryEvent[];
+  deposits: RewardDeposit[];
+  fees: FeeReceipt[];
+}
+
+// Turns one block range of raw logs into timeline events and reward records.
+// `stake`, `cancelUnstake` and `claimAndRestakeEmber` all emit Staked, so they
+// are told apart by what else happened in the same transaction: a compound
+// emits RewardsClaimed for EMBER as the log right before Staked, a real stake
+// pulls EMBER in via Transfer, and a cancel does neither. A bundle that claims
+// and then stakes the same amount also transfers EMBER in between, so it stays
+// a claim and a stake. FeeReceived is emitted by both collectFees and the
+// legacy receiveFee; only collectFees emits FeesCollected right before it.
+// Exported for scripts/check-indexer.ts.
+export function classify(
+  logs: DecodedLog[],
+  transfers: StakeTransfer[],
+  ember: `0x${string}`,
+  timestamps: Map<bigint, number>
+): IndexedRange {
+  const events: StakingHistoryEvent[] = [];
+  const deposits: RewardDeposit[] = [];
+  const fees: FeeReceipt[] = [];
+  const stakeTransfers = new Set(transfers.map((t) => `${t.transactionHash}:${lower(t.from)}:${t.value}`));
+  // EMBER claims by the position a claimAndRestakeEmber Staked log would have
+  const compoundClaims = new Map<string, StakingHistoryEvent>();
+  const collected = new Set<string>();
+
+  for (const log of logs) {
+    const meta: IndexedLog = {
+      blockNumber: Number(log.blockNumber),
+      logIndex: log.logIndex,
+      transactionHash: log.transactionHash,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+    };
+    const base = { id: `${log.blockNumber}-${log.logIndex}`, ...meta };
+
+    switch (log.eventName) {
+      case 'Staked': {
+        const { user, amount } = log.args;
+        const key = `${log.transactionHash}:${lower(user)}:${amount}`;
+        const claim = compoundClaims.get(`${log.transactionHash}:${log.logIndex}`);
+        if (claim && lower(claim.account) === lower(user) && claim.amount === amount.toString()) {
+          claim.type = 'compound';
+          break;
+        }
+        const type = stakeTransfers.has(key) ? 'stake' : 'cancel_unstake';
+        events.push({ ...base, type, account: user, amount: amount.toString() });
+        break;
+      }
+      case 'UnstakeRequested': {
+        const { user, amount, unlockTime } = log.args;
+        events.push({ ...base, type: 'unstake_request', account: user, amount: amount.toString(), unlockTime: Number(unlockTime) });
+        break;
+      }
+      case 'Withdrawn': {
+        const { user, amount } = log.args;
+        events.push({ ...base, type: 'withdraw', account: user, amount: amount.toString() });
+        break;
+      }
+      case 'RewardsClaimed': {
+        const { user, token, amount } = log.args;
+        const event: StakingHistoryEvent = { ...base, type: 'claim', account: user, token, amount: amount.toString() };
+        events.push(event);
+        if (lower(token) === lower(ember)) {
+          compoundClaims.set(`${log.transactionHash}:${log.logIndex + 1}`, event);
+        }
+        break;
+      }
+      case 'RewardClaimFailed': {
+        const { user, token, amount } = log.args;
+        events.push({ ...base, type: 'claim_failed', account: user, token, amount: amount.toString() });
+        break;
+      }
+      case 'RewardsDeposited': {
+        const { token, amount } = log.args;
+        deposits.push({ ...meta, token, amount: amount.toString() });
+        break;
+      }
+      case 'FeesCollected': {
+        const { app, token, grossAmount } = log.args;
+        collected.add(`${log.transactionHash}:${lower(app)}:${lower(token)}:${grossAmount}`);
+        break;
+      }
+      case 'FeeReceived': {
+        const { project, token, totalAmount, stakerShare, contributorShare } = log.args;
+        const key = `${log.transactionHash}:${lower(project)}:${lower(token)}:${totalAmount}`;
+        fees.push({
+          ...meta,
+          project,
+          source: collected.delete(key) ? 'app' : 'project',
+          token,
+          totalAmount: totalAmount.toString(),
+          stakerShare: stakerShare.toString(),
+          contributorShare: contributorShare.toString(),
+        });
+        break;
+      }
+    }
+  }
+
+  return { events, deposits, fees };
+}
+
+async function indexRange(deployment: ServerDeployment, fromBlock: bigint, toBlock: bigint): Promise<IndexedRange> {
+  const { client, contracts } = deployment;
+
+  const logs = (await client.getLogs({
+    address: [contracts.STAKING, contracts.FEE_SPLITTER],
+    events: STAKING_EVENTS,
+    fromBlock,
+    toBlock,
+    strict: true,
+  })) as DecodedLog[];
+  if (logs.length === 0) return { events: [], deposits: [], fees: [] };
+
+  // EMBER transfers into the staking contract identify real stakes
+  const stakeTransfers: StakeTransfer[] = [];
+  if (logs.some((log) => log.eventName === 'Staked')) {
+    const transfers = await client.getLogs({
+      address: contracts.EMBER,
+      event: TRANSFER_EVENT,
+      args: { to: contracts.STAKING },
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+    for (const transfer of transfers) {
+      stakeTransfers.push({ transactionHash: transfer.transactionHash, from: transfer.args.from, value: transfer.args.value });
+    }
+  }
+
+  const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)));
+  const timestamps = new Map<bigint, number>();
+  for (let i = 0; i < blockNumbers.length; i += BLOCK_FETCH_BATCH) {
+    const blocks = await Promise.all(
+      blockNumbers.slice(i, i + BLOCK_FETCH_BATCH).map((blockNumber) => client.getBlock({ blockNumber }))
+    );
+    for (const block of blocks) timestamps.set(block.number!, Number(block.timestamp));
+  }
+
+  return classify(logs, stakeTransfers, contracts.EMBER, timestamps);
+}
+
+const inFlight = new Map<string, Promise<SyncResult>>();
+const lastSync = new Map<string, { at: number; result: SyncResult }>();
+
+async function runSync(deployment: ServerDeployment, maxDurationMs: number): Promise<SyncResult> {
+  const started = Date.now();
+  const index = await loadIndex(deployment);
+  const head = await deployment.client.getBlockNumber();
+  const target = head - deployment.confirmations;
+
+  let from = BigInt(index.lastBlock + 1);
+  while (from <= target) {
+    if (Date.now() - started > maxDurationMs) {
+      return { index, synced: false };
+    }
+    const to = from + BLOCK_RANGE - 1n < target ? from + BLOCK_RANGE - 1n : target;
+    const range = await indexRange(deployment, from, to);
+    index.events.push(...range.events);
+    index.deposits.push(...range.deposits);
+    index.fees.push(...range.fees);
+    index.lastBlock = Number(to);
+    await saveIndex(deployment, index);
+    from = to + 1n;
+  }
+
+  return { index, synced: true };
+}
+
+// Brings the index up to date (within maxDurationMs, MAX_SYNC_DURATION_MS by
+// default) and returns it. Concurrent callers share one sync; repeated calls
+// within MIN_SYNC_INTERVAL_MS reuse the previous result.
+export async function syncStakingIndex(
+  deployment: ServerDeployment,
+  { maxDurationMs = MAX_SYNC_DURATION_MS }: { maxDurationMs?: number } = {}
+): Promise<SyncResult> {
+  const key = indexPath(deployment);
+
+  const previous = lastSync.get(key);
+  if (previous && previous.result.synced && Date.now() - previous.at < MIN_SYNC_INTERVAL_MS) {
+    return previous.result;
+  }
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = runSync(deployment, maxDurationMs)
+      .then((result) => {
+        lastSync.set(key, { at: Date.now(), result });
+        return result;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
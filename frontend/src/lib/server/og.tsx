@@ -0,0 +1,148 @@
+import { unstable_cache } from 'next/cache';
+import { ImageResponse } from 'next/og';
+import { formatUnits } from 'viem';
+import { formatApr } from '@/lib/apr';
+import type { PoolSnapshot } from '@/lib/pool';
+import { computeStakingApr } from './apr';
+import { getServerDeployment } from './deployments';
+import { getPoolSnapshot, POOL_SNAPSHOT_REVALIDATE } from './pool';
+
+// Open Graph cards with live staking numbers (app/opengraph-image.tsx and
+// app/staking/[address]/opengraph-image.tsx). Satori only supports flexbox and
+// inline styles; no emoji, they would be fetched from a CDN at render time.
+
+export const OG_SIZE = { width: 1200, height: 630 };
+export const OG_CONTENT_TYPE = 'image/png';
+
+export interface OgStat {
+  label: string;
+  value: string;
+}
+
+// 1234567 -> "1.2M"
+export function compactAmount(amount: bigint, decimals: number): string {
+  return Number(formatUnits(amount, decimals)).toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+}
+
+export function stakedShare(snapshot: PoolSnapshot): string {
+  const supply = BigInt(snapshot.totalSupply);
+  return supply > 0n ? `${(Number((BigInt(snapshot.totalStaked) * 10_000n) / supply) / 100).toFixed(2)}%` : '0%';
+}
+
+// 30-day trailing yield through the Next.js data cache like the pool snapshot,
+// so new cards don't each sync the indexer and fetch prices. Failures are
+// cached as null too.
+const getOgApr = unstable_cache(
+  async (chainId: number): Promise<number | null> => {
+    const deployment = getServerDeployment(chainId);
+    if (!deployment) return null;
+    try {
+      const response = await computeStakingApr(deployment);
+      return response.windows.find((window) => window.days === 30)?.totalApr ?? null;
+    } catch (error) {
+      console.error('OG APR error:', error);
+      return null;
+    }
+  },
+  ['og-apr-30d'],
+  { revalidate: POOL_SNAPSHOT_REVALIDATE }
+);
+
+// Pool snapshot plus the 30-day trailing yield; either is null when it can't be loaded
+export async function getOgPoolStats(chainId: number): Promise<{ snapshot: PoolSnapshot | null; apr: string | null }> {
+  const [snapshot, apr] = await Promise.all([
+    getPoolSnapshot(chainId).catch((error) => {
+      console.error('OG pool snapshot error:', error);
+      return null;
+    }),
+    getOgApr(chainId),
+  ]);
+  return { snapshot, apr: apr === null ? null : formatApr(apr) };
+}
+
+// Pool stats shown on every card
+export function poolStats(snapshot: PoolSnapshot | null, apr: string | null): OgStat[] {
+  if (!snapshot) return [];
+  const { symbol, decimals } = snapshot.stakingToken;
+  return [
+    { label: 'Total staked', value: `${compactAmount(BigInt(snapshot.totalStaked), decimals)} ${symbol}` },
+    { label: 'Supply staked', value: stakedShare(snapshot) },
+    { label: '30d yield', value: apr ?? '—' },
+  ];
+}
+
+export function stakingOgImage({
+  title,
+  subtitle,
+  stats,
+  tokens,
+}: {
+  title: string;
+  subtitle: string;
+  stats: OgStat[];
+  // Reward token symbols
+  tokens: string[];
+}): ImageResponse {
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 64,
+          background: 'linear-gradient(180deg, #09090b 0%, #18181b 60%, #000000 100%)',
+          color: '#ffffff',
+          fontFamily: 'sans-serif',
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', fontSize: 28, color: '#fb923c', letterSpacing: 4 }}>EMBER STAKING</div>
+          <div style={{ display: 'flex', fontSize: 64, fontWeight: 700, marginTop: 16 }}>{title}</div>
+          <div style={{ display: 'flex', fontSize: 30, color: '#a1a1aa', marginTop: 12 }}>{subtitle}</div>
+        </div>
+
+        <div style={{ display: 'flex', gap: 24 }}>
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                flex: 1,
+                padding: '24px 28px',
+                borderRadius: 24,
+                border: '2px solid #27272a',
+                background: 'rgba(24, 24, 27, 0.6)',
+              }}
+            >
+              <div style={{ display: 'flex', fontSize: 38, fontWeight: 700, color: '#fb923c', whiteSpace: 'nowrap' }}>{stat.value}</div>
+              <div style={{ display: 'flex', fontSize: 24, color: '#71717a', marginTop: 8 }}>{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12, fontSize: 24, color: '#71717a' }}>
+          {tokens.length > 0 && <div style={{ display: 'flex' }}>Rewards in</div>}
+          {tokens.map((symbol) => (
+            <div
+              key={symbol}
+              style={{
+                display: 'flex',
+                padding: '4px 16px',
+                borderRadius: 999,
+                border: '2px solid rgba(249, 115, 22, 0.4)',
+                color: '#fdba74',
+              }}
+            >
+              {symbol}
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    OG_SIZE
+  );
+}
@@ -0,0 +1,118 @@
+import { unstable_cache } from 'next/cache';
+import { ERC20_ABI, STAKING_ABI } from '@/config/contracts';
+import type { PoolAccountSnapshot, PoolSnapshot } from '@/lib/pool';
+import { getServerDeployment, type ServerDeployment } from './deployments';
+import { syncStakingIndex } from './indexer';
+import { countStakers } from './stats';
+import { readTokenInfo } from './tokens';
+
+// Pool-wide state for visitors without a wallet (totals, stakers, reward tokens,
+// the cooldown) and single positions for shared /staking/[address] links. Reads
+// are taken at a single block; the staker count comes from the indexer.
+
+// Seconds a snapshot is reused, by the staking page and /api/pool alike
+export const POOL_SNAPSHOT_REVALIDATE = 60;
+// Snapshots are taken during builds and revalidation; don't hold them up with a full backfill
+const STAKER_INDEX_BUDGET_MS = 1_500;
+
+export async function computePoolSnapshot(deployment: ServerDeployment): Promise<PoolSnapshot> {
+  const { client, contracts } = deployment;
+  const blockNumber = await client.getBlockNumber();
+  const staking = { address: contracts.STAKING, abi: STAKING_ABI, blockNumber } as const;
+
+  const [stakers, stakingToken, totalStaked, cooldownPeriod, minStakeDuration, paused, rewardTokenCount] =
+    await Promise.all([
+      // The staker count is optional; the live reads are still worth serving without it
+      syncStakingIndex(deployment, { maxDurationMs: STAKER_INDEX_BUDGET_MS }).catch((error) => {
+        console.error('Pool snapshot indexer error:', error);
+        return null;
+      }),
+      client.readContract({ ...staking, functionName: 'stakingToken' }),
+      client.readContract({ ...staking, functionName: 'totalStaked' }),
+      client.readContract({ ...staking, functionName: 'cooldownPeriod' }),
+      client.readContract({ ...staking, functionName: 'MIN_STAKE_DURATION' }),
+      client.readContract({ ...staking, functionName: 'paused' }),
+      client.readContract({ ...staking, functionName: 'rewardTokenCount' }),
+    ]);
+
+  const tokens = await Promise.all(
+    Array.from({ length: Number(rewardTokenCount) }, (_, i) =>
+      client.readContract({ ...staking, functionName: 'rewardTokens', args: [BigInt(i)] })
+    )
+  );
+  const [totalSupply, stakingInfo, rewardTokens] = await Promise.all([
+    client.readContract({ address: stakingToken, abi: ERC20_ABI, functionName: 'totalSupply', blockNumber }),
+    readTokenInfo(deployment, stakingToken),
+    Promise.all(
+      tokens.map(async (token) => {
+        const [active, info] = await Promise.all([
+          client.readContract({ ...staking, functionName: 'isRewardToken', args: [token] }),
+          readTokenInfo(deployment, token),
+        ]);
+        return { token, ...info, active };
+      })
+    ),
+  ]);
+
+  return {
+    chainId: deployment.chainId,
+    stakingToken: { address: stakingToken, ...stakingInfo },
+    totalStaked: totalStaked.toString(),
+    totalSupply: totalSupply.toString(),
+    activeStakers: stakers ? countStakers(stakers.index).activeStakers : null,
+    cooldownPeriod: Number(cooldownPeriod),
+    minStakeDuration: Number(minStakeDuration),
+    paused,
+    // Active tokens first, in the contract's order
+    rewardTokens: [...rewardTokens].sort((a, b) => Number(b.active) - Number(a.active)),
+    blockNumber: Number(blockNumber),
+    syncing: !!stakers && !stakers.synced,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export async function computeAccountSnapshot(deployment: ServerDeployment, account: `0x${string}`): Promise<PoolAccountSnapshot> {
+  const { client, contracts } = deployment;
+  const blockNumber = await client.getBlockNumber();
+  const staking = { address: contracts.STAKING, abi: STAKING_ABI, blockNumber } as const;
+
+  const [stakedBalance, [pendingUnstake], [tokens, amounts]] = await Promise.all([
+    client.readContract({ ...staking, functionName: 'stakedBalance', args: [account] }),
+    client.readContract({ ...staking, functionName: 'unstakeRequests', args: [account] }),
+    client.readContract({ ...staking, functionName: 'earnedAll', args: [account] }),
+  ]);
+  const owed = tokens.map((token, i) => ({ token, amount: amounts[i] })).filter(({ amount }) => amount > 0n);
+  const rewards = await Promise.all(
+    owed.map(async ({ token, amount }) => ({ token, ...(await readTokenInfo(deployment, token)), amount: amount.toString() }))
+  );
+
+  return {
+    chainId: deployment.chainId,
+    account,
+    stakedBalance: stakedBalance.toString(),
+    pendingUnstake: pendingUnstake.toString(),
+    rewards,
+    blockNumber: Number(blockNumber),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// computePoolSnapshot through the Next.js data cache, shared across requests
+// and instances. Returns null for unsupported chains.
+export const getPoolSnapshot = unstable_cache(
+  async (chainId: number): Promise<PoolSnapshot | null> => {
+    const deployment = getServerDeployment(chainId);
+    return deployment ? computePoolSnapshot(deployment) : null;
+  },
+  ['pool-snapshot'],
+  { revalidate: POOL_SNAPSHOT_REVALIDATE }
+);
+
+export const getAccountSnapshot = unstable_cache(
+  async (chainId: number, account: `0x${string}`): Promise<PoolAccountSnapshot | null> => {
+    const deployment = getServerDeployment(chainId);
+    return deployment ? computeAccountSnapshot(deployment, account) : null;
+  },
+  ['pool-account-snapshot'],
+  { revalidate: POOL_SNAPSHOT_REVALIDATE }
+);
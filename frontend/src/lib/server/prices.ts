@@ -0,0 +1,71 @@
+import { base } from 'viem/chains';
+import type { ServerDeployment } from './deployments';
+
+// Prices reward tokens in EMBER so yields on different tokens can be compared
+// and summed. Sources are pluggable: DexScreener for Base Mainnet, and a fixed
+// price table for testnets / anvil (or anything else via PRICE_SOURCE).
+
+export interface PriceSource {
+  name: string;
+  // EMBER per one whole `token`, or null if the token can't be priced
+  getPriceInEmber(deployment: ServerDeployment, token: `0x${string}`): Promise<number | null>;
+}
+
+// FIXED_TOKEN_PRICES='{"0x4200000000000000000000000000000000000006": 30000000}'
+export function fixedPriceSource(prices: Record<string, number>): PriceSource {
+  const table = new Map(Object.entries(prices).map(([token, price]) => [token.toLowerCase(), price]));
+  return {
+    name: 'fixed',
+    async getPriceInEmber(deployment, token) {
+      if (token.toLowerCase() === deployment.contracts.EMBER.toLowerCase()) return 1;
+      return table.get(token.toLowerCase()) ?? null;
+    },
+  };
+}
+
+interface DexScreenerPair {
+  chainId: string;
+  baseToken: { address: string };
+  priceUsd?: string;
+  liquidity?: { usd?: number };
+}
+
+// USD price from the most liquid Base pair where `token` is the base token
+async function fetchUsdPrice(token: string): Promise<number | null> {
+  const res = await fetch(`https://api.dexscreener.com/latest/dex/tokens/${token}`, {
+    next: { revalidate: 300 }, // Cache for 5 minutes
+  });
+  if (!res.ok) return null;
+
+  const { pairs } = (await res.json()) as { pairs: DexScreenerPair[] | null };
+  const best = (pairs ?? [])
+    .filter((p) => p.chainId === 'base' && p.priceUsd && p.baseToken.address.toLowerCase() === token.toLowerCase())
+    .sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0))[0];
+  return best ? Number(best.priceUsd) : null;
+}
+
+export const dexScreenerPriceSource: PriceSource = {
+  name: 'dexscreener',
+  async getPriceInEmber(deployment, token) {
+    const ember = deployment.contracts.EMBER;
+    if (token.toLowerCase() === ember.toLowerCase()) return 1;
+
+    const [tokenUsd, emberUsd] = await Promise.all([fetchUsdPrice(token), fetchUsdPrice(ember)]);
+    if (!tokenUsd || !emberUsd) return null;
+    return tokenUsd / emberUsd;
+  },
+};
+
+export function getPriceSource(deployment: ServerDeployment): PriceSource {
+  const configured = process.env.PRICE_SOURCE;
+  const useFixed = configured ? configured === 'fixed' : deployment.chainId !== base.id;
+  if (!useFixed) return dexScreenerPriceSource;
+
+  let prices: Record<string, number> = {};
+  try {
+    prices = JSON.parse(process.env.FIXED_TOKEN_PRICES || '{}');
+  } catch {
+    console.error('FIXED_TOKEN_PRICES is not valid JSON, pricing only EMBER');
+  }
+  return fixedPriceSource(prices);
+}
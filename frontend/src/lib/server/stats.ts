@@ -0,0 +1,168 @@
+import { STAKING_ABI, VESTER_ABI } from '@/config/contracts';
+import { STATS_DAYS, type AppFeeStats, type ProtocolStatsResponse, type RewardTotals, type StakedPoint, type VesterStats } from '@/lib/stats';
+import { stakedDelta } from './apr';
+import { sumFees } from './contributors';
+import type { ServerDeployment } from './deployments';
+import { syncStakingIndex, type StakingIndex } from './indexer';
+import { readTokenInfo, type ServerTokenInfo } from './tokens';
+
+// Protocol-wide numbers for the Dragon's Den stats section. History (staked
+// over time, stakers, rewards, fees) comes from the indexer; the current
+// totalStaked and the vesting split are read live.
+
+const SECONDS_PER_DAY = 86_400;
+
+const dayKey = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 10);
+
+// totalStaked at the end of each of the last STATS_DAYS UTC days
+function stakedByDay(index: StakingIndex, now: number): StakedPoint[] {
+  const today = Math.floor(now / SECONDS_PER_DAY);
+  const ends = Array.from({ length: STATS_DAYS }, (_, i) => (today - STATS_DAYS + 2 + i) * SECONDS_PER_DAY);
+
+  const points: StakedPoint[] = [];
+  let level = 0n;
+  let cursor = 0;
+  for (const end of ends) {
+    while (cursor < index.events.length && index.events[cursor].timestamp < end) {
+      level += stakedDelta(index.events[cursor]);
+      cursor++;
+    }
+    points.push({ date: dayKey(end - 1), totalStaked: level.toString() });
+  }
+  return points;
+}
+
+export function countStakers(index: StakingIndex) {
+  const balances = new Map<string, bigint>();
+  for (const event of index.events) {
+    const delta = stakedDelta(event);
+    if (delta === 0n) continue;
+    const account = event.account.toLowerCase();
+    balances.set(account, (balances.get(account) ?? 0n) + delta);
+  }
+  return {
+    uniqueStakers: balances.size,
+    activeStakers: Array.from(balances.values()).filter((balance) => balance > 0n).length,
+  };
+}
+
+function rewardTotals(index: StakingIndex, tokenInfo: Map<string, ServerTokenInfo>): RewardTotals[] {
+  const totals = new Map<string, { deposited: bigint; claimed: bigint; depositCount: number }>();
+  const totalFor = (token: string) => {
+    const key = token.toLowerCase();
+    if (!totals.has(key)) totals.set(key, { deposited: 0n, claimed: 0n, depositCount: 0 });
+    return totals.get(key)!;
+  };
+
+  for (const deposit of index.deposits) {
+    const total = totalFor(deposit.token);
+    total.deposited += BigInt(deposit.amount);
+    total.depositCount++;
+  }
+  for (const event of index.events) {
+    if ((event.type === 'claim' || event.type === 'compound') && event.token) {
+      totalFor(event.token).claimed += BigInt(event.amount);
+    }
+  }
+
+  return Array.from(totals, ([token, total]) => ({
+    token: token as `0x${string}`,
+    ...tokenInfo.get(token)!,
+    deposited: total.deposited.toString(),
+    claimed: total.claimed.toString(),
+    depositCount: total.depositCount,
+  })).sort((a, b) => b.depositCount - a.depositCount);
+}
+
+function appFees(index: StakingIndex, tokenInfo: Map<string, ServerTokenInfo>): AppFeeStats[] {
+  const byApp = new Map<string, StakingIndex['fees']>();
+  for (const fee of index.fees) {
+    const key = fee.project.toLowerCase();
+    byApp.set(key, [...(byApp.get(key) ?? []), fee]);
+  }
+  return Array.from(byApp, ([address, receipts]) => ({
+    address: address as `0x${string}`,
+    source: receipts[receipts.length - 1].source,
+    fees: sumFees(receipts, tokenInfo),
+    feeCount: receipts.length,
+  })).sort((a, b) => b.feeCount - a.feeCount);
+}
+
+async function vesterStats(deployment: ServerDeployment): Promise<VesterStats | null> {
+  const { client, contracts } = deployment;
+  if (!contracts.VESTER) return null;
+  const vester = { address: contracts.VESTER, abi: VESTER_ABI } as const;
+
+  const [token, scheduleCount] = await Promise.all([
+    client.readContract({ ...vester, functionName: 'rewardToken' }),
+    client.readContract({ ...vester, functionName: 'scheduleCount' }),
+  ]);
+  const [schedules, info] = await Promise.all([
+    Promise.all(
+      Array.from({ length: Number(scheduleCount) }, (_, i) =>
+        client.readContract({ ...vester, functionName: 'getSchedule', args: [BigInt(i)] })
+      )
+    ),
+    readTokenInfo(deployment, token),
+  ]);
+
+  let total = 0n;
+  let released = 0n;
+  let releasable = 0n;
+  let remaining = 0n;
+  let cancelled = 0n;
+  for (const [totalAmount, scheduleReleased, , , , vested, scheduleReleasable, active] of schedules) {
+    total += totalAmount;
+    released += scheduleReleased;
+    if (active) {
+      releasable += scheduleReleasable;
+      remaining += totalAmount - vested;
+    } else {
+      // cancelSchedule returns everything unreleased to the owner
+      cancelled += totalAmount - scheduleReleased;
+    }
+  }
+
+  return {
+    token,
+    ...info,
+    total: total.toString(),
+    released: released.toString(),
+    releasable: releasable.toString(),
+    remaining: remaining.toString(),
+    cancelled: cancelled.toString(),
+    activeSchedules: schedules.filter((schedule) => schedule[7]).length,
+  };
+}
+
+export async function computeProtocolStats(deployment: ServerDeployment): Promise<ProtocolStatsResponse> {
+  const { client, contracts } = deployment;
+  const now = Math.floor(Date.now() / 1000);
+
+  const [{ index, synced }, totalStaked, vester] = await Promise.all([
+    syncStakingIndex(deployment),
+    client.readContract({ address: contracts.STAKING, abi: STAKING_ABI, functionName: 'totalStaked' }),
+    vesterStats(deployment),
+  ]);
+
+  const tokens = Array.from(
+    new Set(
+      [...index.deposits, ...index.fees, ...index.events]
+        .flatMap((record) => ('token' in record && record.token ? [record.token.toLowerCase() as `0x${string}`] : []))
+    )
+  );
+  const tokenInfo = new Map(await Promise.all(tokens.map(async (token) => [token, await readTokenInfo(deployment, token)] as const)));
+
+  return {
+    chainId: deployment.chainId,
+    totalStaked: totalStaked.toString(),
+    stakedByDay: stakedByDay(index, now),
+    ...countStakers(index),
+    rewards: rewardTotals(index, tokenInfo),
+    apps: appFees(index, tokenInfo),
+    vester,
+    indexedBlock: index.lastBlock,
+    syncing: !synced,
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,17 @@
+import { ERC20_ABI } from '@/config/contracts';
+import type { ServerDeployment } from './deployments';
+
+export interface ServerTokenInfo {
+  symbol: string;
+  decimals: number;
+}
+
+// symbol / decimals for a token, falling back to a short address and 18
+// decimals for tokens without the optional metadata functions
+export async function readTokenInfo(deployment: ServerDeployment, address: `0x${string}`): Promise<ServerTokenInfo> {
+  const [symbol, decimals] = await Promise.all([
+    deployment.client.readContract({ address, abi: ERC20_ABI, functionName: 'symbol' }).catch(() => null),
+    deployment.client.readContract({ address, abi: ERC20_ABI, functionName: 'decimals' }).catch(() => null),
+  ]);
+  return { symbol: symbol ?? address.slice(0, 8), decimals: decimals ?? 18 };
+}
@@ -0,0 +1,74 @@
+// Shared types for the protocol stats API (/api/stats).
+// Amounts are raw token units serialized as decimal strings.
+
+import type { TokenFees } from '@/lib/contributors';
+
+// Length of the daily totalStaked series
+export const STATS_DAYS = 30;
+
+export interface StakedPoint {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  // totalStaked at the end of the day, in EMBER wei
+  totalStaked: string;
+}
+
+export interface RewardTotals {
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  // Every RewardsDeposited since deployment
+  deposited: string;
+  // Claimed by stakers, including rewards compounded back into the stake
+  claimed: string;
+  depositCount: number;
+}
+
+export interface AppFeeStats {
+  // App (collectFees) or legacy project (receiveFee)
+  address: `0x${string}`;
+  source: 'app' | 'project';
+  fees: TokenFees[];
+  feeCount: number;
+}
+
+export interface VesterStats {
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  // Sum of every schedule ever created
+  total: string;
+  // Released to the staking contract
+  released: string;
+  // Vested in active schedules but not released yet
+  releasable: string;
+  // Still vesting in active schedules
+  remaining: string;
+  // Returned to the owner by cancelled schedules
+  cancelled: string;
+  activeSchedules: number;
+}
+
+export interface ProtocolStatsResponse {
+  chainId: number;
+  // Live totalStaked
+  totalStaked: string;
+  // Oldest first, STATS_DAYS entries ending today
+  stakedByDay: StakedPoint[];
+  // Accounts that ever staked / that have a stake now
+  uniqueStakers: number;
+  activeStakers: number;
+  rewards: RewardTotals[];
+  // Most fees first
+  apps: AppFeeStats[];
+  // Null on deployments without a RewardVester
+  vester: VesterStats | null;
+  indexedBlock: number;
+  // True while the indexer is still backfilling; history may be incomplete
+  syncing: boolean;
+  updatedAt: string;
+}
+
+export interface ProtocolStatsError {
+  error: string;
+}
@@ -0,0 +1,47 @@
+// Port of the unlock time EmberStaking.requestUnstake sets (M-3). Topping up a
+// pending request doesn't keep its unlock time: the whole amount unlocks at
+// the amount-weighted average of the pending request's remaining time and a
+// full cooldown for the new amount, rounded down like the contract does.
+// test/fixtures/unlock-time.json holds vectors checked against both the
+// contract and this port (`npm run unlock:check`).
+
+export interface UnstakePreview {
+  // Unix seconds
+  unlockTime: bigint;
+  // Unlock time of the pending request, if there is one
+  previousUnlockTime: bigint | null;
+  // How much later the pending amount becomes withdrawable; 0 without a pending request
+  addedDelay: bigint;
+}
+
+export function computeUnlockTime({
+  pendingAmount,
+  pendingUnlockTime,
+  amount,
+  cooldownPeriod,
+  now,
+}: {
+  pendingAmount: bigint;
+  pendingUnlockTime: bigint;
+  amount: bigint;
+  cooldownPeriod: bigint;
+  // block.timestamp of the request
+  now: bigint;
+}): bigint {
+  if (pendingAmount === 0n) return now + cooldownPeriod;
+  const remainingTime = pendingUnlockTime > now ? pendingUnlockTime - now : 0n;
+  return now + (pendingAmount * remainingTime + amount * cooldownPeriod) / (pendingAmount + amount);
+}
+
+export function previewUnstake(params: Parameters<typeof computeUnlockTime>[0]): UnstakePreview {
+  const unlockTime = computeUnlockTime(params);
+  if (params.pendingAmount === 0n) return { unlockTime, previousUnlockTime: null, addedDelay: 0n };
+
+  // An already unlocked request is delayed from now, not from its old unlock time
+  const withdrawableFrom = params.pendingUnlockTime > params.now ? params.pendingUnlockTime : params.now;
+  return {
+    unlockTime,
+    previousUnlockTime: params.pendingUnlockTime,
+    addedDelay: unlockTime > withdrawableFrom ? unlockTime - withdrawableFrom : 0n,
+  };
+}
@@ -4,6 +4,7 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/access/Ownable.sol";
 import "@openzeppelin/utils/ReentrancyGuard.sol";
 import "@openzeppelin/token/ERC20/IERC20.sol";
+import "@openzeppelin/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/utils/Pausable.sol";
 
@@ -149,6 +150,26 @@ contract EmberStaking is Ownable, ReentrancyGuard, Pausable {
     /// @dev Minimum stake is 1M EMBER to prevent dust spam
     /// @dev M-2: Records stake start time for flash-stake protection
     function stake(uint256 amount) external nonReentrant whenNotPaused updateRewards(msg.sender) {
+        _stake(amount);
+    }
+
+    /// @notice Stake EMBER using an EIP-2612 permit instead of a separate approve transaction
+    /// @param amount Amount of EMBER to stake (also the permitted allowance)
+    /// @param deadline Permit deadline
+    /// @dev The permit is wrapped in try/catch so a front-run permit (same signature submitted
+    ///      by someone else) can't grief the stake; transferFrom still fails without allowance
+    function stakeWithPermit(uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s)
+        external
+        nonReentrant
+        whenNotPaused
+        updateRewards(msg.sender)
+    {
+        try IERC20Permit(address(stakingToken)).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
+        _stake(amount);
+    }
+
+    /// @dev Shared by stake and stakeWithPermit; callers apply nonReentrant, whenNotPaused and updateRewards
+    function _stake(uint256 amount) internal {
         if (amount == 0) revert ZeroAmount();
 
         // Check minimum stake (either new stake meets minimum, or adding to existing position)
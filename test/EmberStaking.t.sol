@@ -4,9 +4,10 @@ pragma solidity ^0.8.20;
 import "forge-std/Test.sol";
 import "../src/EmberStaking.sol";
 import "@openzeppelin/token/ERC20/ERC20.sol";
+import "@openzeppelin/token/ERC20/extensions/ERC20Permit.sol";
 
-contract MockERC20 is ERC20 {
-    constructor(string memory name, string memory symbol) ERC20(name, symbol) {}
+contract MockERC20 is ERC20, ERC20Permit {
+    constructor(string memory name, string memory symbol) ERC20(name, symbol) ERC20Permit(name) {}
 
     function mint(address to, uint256 amount) external {
         _mint(to, amount);
@@ -525,4 +526,136 @@ contract EmberStakingTest is Test {
         assertEq(ember.balanceOf(alice), balBefore + amount);
         vm.stopPrank();
     }
+
+    // Fields in alphabetical order, as vm.parseJson decodes objects
+    struct UnlockTimeCase {
+        uint256 cooldown;
+        uint256 elapsed;
+        uint256 expectedDelay;
+        uint256 firstAmount;
+        string name;
+        uint256 secondAmount;
+    }
+
+    function test_M3_UnlockTimeVectors() public {
+        string memory json = vm.readFile(string.concat(vm.projectRoot(), "/test/fixtures/unlock-time.json"));
+        UnlockTimeCase[] memory cases = abi.decode(vm.parseJson(json, ".cases"), (UnlockTimeCase[]));
+        assertGt(cases.length, 0);
+
+        for (uint256 i = 0; i < cases.length; i++) {
+            UnlockTimeCase memory c = cases[i];
+            address user = address(uint160(0x1000 + i));
+            uint256 firstAmount = c.firstAmount * 1 ether;
+            uint256 secondAmount = c.secondAmount * 1 ether;
+
+            staking.setCooldownPeriod(c.cooldown);
+            ember.mint(user, firstAmount + secondAmount);
+
+            vm.startPrank(user);
+            ember.approve(address(staking), firstAmount + secondAmount);
+            staking.stake(firstAmount + secondAmount);
+            staking.requestUnstake(firstAmount);
+            vm.warp(block.timestamp + c.elapsed);
+            staking.requestUnstake(secondAmount);
+            vm.stopPrank();
+
+            (, uint256 unlockTime) = staking.unstakeRequests(user);
+            assertEq(unlockTime - block.timestamp, c.expectedDelay, c.name);
+        }
+    }
+
+    // ============ PERMIT TESTS ============
+
+    uint256 constant CAROL_KEY = 0xC4401;
+
+    function _signPermit(uint256 key, uint256 amount, uint256 deadline)
+        internal
+        view
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        address signer = vm.addr(key);
+        bytes32 structHash = keccak256(
+            abi.encode(
+                keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"),
+                signer,
+                address(staking),
+                amount,
+                ember.nonces(signer),
+                deadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", ember.DOMAIN_SEPARATOR(), structHash));
+        return vm.sign(key, digest);
+    }
+
+    function test_StakeWithPermit() public {
+        address carol = vm.addr(CAROL_KEY);
+        ember.mint(carol, INITIAL_BALANCE);
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(CAROL_KEY, MIN_STAKE, deadline);
+
+        // No approve transaction beforehand
+        vm.prank(carol);
+        staking.stakeWithPermit(MIN_STAKE, deadline, v, r, s);
+
+        assertEq(staking.stakedBalance(carol), MIN_STAKE);
+        assertEq(staking.totalStaked(), MIN_STAKE);
+        assertEq(ember.balanceOf(carol), INITIAL_BALANCE - MIN_STAKE);
+        assertEq(ember.allowance(carol, address(staking)), 0);
+        assertEq(ember.nonces(carol), 1);
+    }
+
+    function test_StakeWithPermit_FrontRunPermitStillStakes() public {
+        address carol = vm.addr(CAROL_KEY);
+        ember.mint(carol, INITIAL_BALANCE);
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(CAROL_KEY, MIN_STAKE, deadline);
+
+        // Someone copies the signature from the mempool and uses it first
+        vm.prank(bob);
+        ember.permit(carol, address(staking), MIN_STAKE, deadline, v, r, s);
+
+        vm.prank(carol);
+        staking.stakeWithPermit(MIN_STAKE, deadline, v, r, s);
+
+        assertEq(staking.stakedBalance(carol), MIN_STAKE);
+    }
+
+    function test_RevertStakeWithPermitInvalidSignature() public {
+        address carol = vm.addr(CAROL_KEY);
+        ember.mint(carol, INITIAL_BALANCE);
+        uint256 deadline = block.timestamp + 1 hours;
+        // Signed for a smaller amount than is staked
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(CAROL_KEY, MIN_STAKE / 2, deadline);
+
+        vm.prank(carol);
+        vm.expectRevert(
+            abi.encodeWithSelector(IERC20Errors.ERC20InsufficientAllowance.selector, address(staking), 0, MIN_STAKE)
+        );
+        staking.stakeWithPermit(MIN_STAKE, deadline, v, r, s);
+    }
+
+    function test_RevertStakeWithPermitBelowMinimum() public {
+        address carol = vm.addr(CAROL_KEY);
+        ember.mint(carol, INITIAL_BALANCE);
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(CAROL_KEY, MIN_STAKE - 1, deadline);
+
+        vm.prank(carol);
+        vm.expectRevert(EmberStaking.StakeBelowMinimum.selector);
+        staking.stakeWithPermit(MIN_STAKE - 1, deadline, v, r, s);
+    }
+
+    function test_RevertStakeWithPermitWhenPaused() public {
+        address carol = vm.addr(CAROL_KEY);
+        ember.mint(carol, INITIAL_BALANCE);
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(CAROL_KEY, MIN_STAKE, deadline);
+
+        staking.pause();
+
+        vm.prank(carol);
+        vm.expectRevert(Pausable.EnforcedPause.selector);
+        staking.stakeWithPermit(MIN_STAKE, deadline, v, r, s);
+    }
 }